@@ -6,6 +6,9 @@ import { SymbolWebviewProvider } from './features/symbol/SymbolWebviewProvider';
 import { LspClient } from './shared/core/LspClient';
 import { DatabaseManager } from './shared/core/DatabaseManager';
 import { DisabledWebviewProvider } from './features/placeholder/DisabledWebviewProvider';
+import { RelationController } from './features/relation/RelationController';
+import { RelationWebviewProvider } from './features/relation/RelationWebviewProvider';
+import { SymbolMenuContext } from './shared/types';
 
 let globalDbManager: DatabaseManager | undefined;
 
@@ -119,6 +122,48 @@ export function activate(context: vscode.ExtensionContext) {
 		})
 	);
 
+	context.subscriptions.push(
+		vscode.commands.registerCommand('symbol-window.navigateBack', () => {
+			controller.navigateHistory(-1);
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('symbol-window.navigateForward', () => {
+			controller.navigateHistory(1);
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('symbol-window.resetFrecency', () => {
+			controller.resetFrecency();
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('symbol-window.showResultsInReferences', () => {
+			controller.showResultsInReferences();
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('symbol-window.openResultsInEditor', () => {
+			controller.openResultsInEditor();
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('symbol-window.exportSymbols', () => {
+			controller.exportSymbols();
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('symbol-window.addFavorite', (menuContext?: SymbolMenuContext) => {
+			controller.addFavorite(menuContext);
+		})
+	);
+
 	context.subscriptions.push(
 		vscode.commands.registerCommand('symbol-window.openSecondWindow', async () => {
 			const currentState = context.globalState.get<boolean>('symbolWindow.showSecondView', false);
@@ -134,6 +179,84 @@ export function activate(context: vscode.ExtensionContext) {
 		})
 	);
 
+	// Relation Window
+	const relationController = new RelationController(context, lspClient, dbManager);
+	const relationProvider = new RelationWebviewProvider(context.extensionUri, relationController);
+
+	context.subscriptions.push(
+		vscode.window.registerWebviewViewProvider(
+			RelationWebviewProvider.viewType,
+			relationProvider,
+			{ webviewOptions: { retainContextWhenHidden: true } }
+		)
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('relation-window.refresh', () => {
+			relationController.refresh();
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('relation-window.toggleDirection', () => {
+			relationController.toggleDirection();
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('relation-window.exportGraph', () => {
+			relationController.exportGraph();
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('relation-window.setCallPathStart', (menuContext?: SymbolMenuContext) => {
+			relationController.setCallPathStart(menuContext);
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('relation-window.findCallPaths', (menuContext?: SymbolMenuContext) => {
+			relationController.findCallPaths(menuContext);
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('relation-window.expandAll', () => {
+			relationController.expandAll();
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('relation-window.lock', () => {
+			relationController.setLocked(true);
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('relation-window.unlock', () => {
+			relationController.setLocked(false);
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('relation-window.historyBack', () => {
+			relationController.navigateHistory(-1);
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('relation-window.historyForward', () => {
+			relationController.navigateHistory(1);
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('relation-window.deepSearch', () => {
+			relationController.deepSearch();
+		})
+	);
+
 	// Initialize second window state
 	const showSecondView = context.globalState.get<boolean>('symbolWindow.showSecondView', false);
 	vscode.commands.executeCommand('setContext', 'symbolWindow.showSecondView', showSecondView);
@@ -0,0 +1,1193 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { RelationModel, WordRoot, RelationRoot, HeuristicCall, isWordRoot, isTypeRoot } from './RelationModel';
+import { RelationWebviewProvider } from './RelationWebviewProvider';
+import { History } from '../../shared/core/History';
+import { CallGraph, CallGraphBuilder, GraphFormat, GraphNode, formatGraph } from './RelationGraph';
+import { findCallPaths } from './RelationPaths';
+import { LspClient } from '../../shared/core/LspClient';
+import { DatabaseManager } from '../../shared/core/DatabaseManager';
+import { RelationDirection, RelationItem, SymbolMenuContext } from '../../shared/types';
+
+type TypeDirection = 'supertypes' | 'subtypes';
+
+interface CachedNode {
+    item: vscode.CallHierarchyItem | vscode.TypeHierarchyItem;
+    // Type hierarchy nodes keep expanding in the direction of their section
+    typeDirection?: TypeDirection;
+    // Heuristic callers keep expanding through text search
+    heuristic?: boolean;
+    // Graph keys from the root to this node (cycle guard)
+    path?: string[];
+}
+
+// Results for a word root: references, or heuristic callers when there are none
+interface WordResults {
+    references: vscode.Location[];
+    heuristicCalls: HeuristicCall[];
+}
+
+// toggleDirection cycles through the modes in this order
+const DIRECTIONS: RelationDirection[] = ['incoming', 'outgoing', 'typeHierarchy'];
+
+export class RelationController {
+    private model: RelationModel;
+    private provider?: RelationWebviewProvider;
+    private context: vscode.ExtensionContext;
+    private direction: RelationDirection = 'incoming';
+    private debounceTimer: NodeJS.Timeout | undefined;
+    private selectionListener: vscode.Disposable | undefined;
+    private deepSearchCts: vscode.CancellationTokenSource | undefined;
+    // Cancelled by the next sync, so cursor moves do not pile up workspace text searches (heuristic callers)
+    private syncCts: vscode.CancellationTokenSource | undefined;
+    // Node expansions in flight, by item id: cancelled when the node is collapsed or the root changes
+    private expansionCts = new Map<string, vscode.CancellationTokenSource>();
+    private readonly DEBOUNCE_TIME = 500;
+    private readonly BATCH_SIZE = 100;
+
+    // Lock View: ignore cursor movements (manual Refresh still works)
+    private isLocked: boolean = false;
+
+    // Jump Suppression: our own jumps move the cursor, which must not re-root the view
+    private isJumping: boolean = false;
+    private jumpWindowTimer: NodeJS.Timeout | undefined;
+    private jumpSafetyTimer: NodeJS.Timeout | undefined;
+    private readonly JUMP_SUPPRESSION_WINDOW = 100;
+    private readonly JUMP_SAFETY_TIMEOUT = 1000;
+
+    // Current Root Symbol
+    private currentRoot: RelationRoot | undefined;
+    private currentRootItem: RelationItem | undefined;
+    private currentChildren: RelationItem[] = [];
+    private requestId: number = 0;
+
+    // References Fallback (paginated like the Symbol Window's project results)
+    private allReferences: vscode.Location[] = [];
+    private loadedCount: number = 0;
+    private isLoadingMore: boolean = false;
+
+    // "From" symbol of the next call path search
+    private callPathStart: vscode.CallHierarchyItem | undefined;
+
+    // Back/Forward navigation through previously viewed Root Symbols
+    private history = new History<RelationRoot>((a, b) => {
+        if (isWordRoot(a) || isWordRoot(b)) {
+            return isWordRoot(a) && isWordRoot(b)
+                && a.word === b.word
+                && a.uri.toString() === b.uri.toString()
+                && a.position.line === b.position.line;
+        }
+        return isTypeRoot(a) === isTypeRoot(b)
+            && a.uri.toString() === b.uri.toString()
+            && a.range.isEqual(b.range);
+    });
+
+    // Maps itemId -> Call/Type HierarchyItem for lazy loading. Cleared whenever the root changes.
+    private itemCache: Map<string, CachedNode> = new Map();
+    private nextItemId: number = 0;
+
+    constructor(context: vscode.ExtensionContext, lspClient: LspClient, dbManager: DatabaseManager) {
+        this.context = context;
+        this.model = new RelationModel(lspClient, dbManager);
+
+        // Direction persists for the session; the setting is only the initial state
+        const config = vscode.workspace.getConfiguration('relationWindow');
+        this.direction = config.get<RelationDirection>('defaultDirection', 'incoming');
+        vscode.commands.executeCommand('setContext', 'relationWindow.direction', this.direction);
+        vscode.commands.executeCommand('setContext', 'relationWindow.locked', this.isLocked);
+        this.updateHistoryContext();
+
+        // Only listen to the cursor while the Relation Window is enabled
+        this.updateListeners();
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('relationWindow.enable')) {
+                this.updateListeners();
+            }
+        }, null, context.subscriptions);
+
+        context.subscriptions.push({ dispose: () => this.disposeListeners() });
+    }
+
+    public setProvider(provider: RelationWebviewProvider) {
+        this.provider = provider;
+    }
+
+    private updateListeners() {
+        const enabled = vscode.workspace.getConfiguration('relationWindow').get<boolean>('enable', true);
+        if (enabled && !this.selectionListener) {
+            this.selectionListener = vscode.window.onDidChangeTextEditorSelection(e => this.onSelectionChange(e));
+        } else if (!enabled) {
+            this.disposeListeners();
+        }
+    }
+
+    private disposeListeners() {
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+            this.debounceTimer = undefined;
+        }
+        this.selectionListener?.dispose();
+        this.selectionListener = undefined;
+    }
+
+    private onSelectionChange(e: vscode.TextEditorSelectionChangeEvent) {
+        if (this.isLocked) {
+            return;
+        }
+        // Do NOT reset the flag here: a single jump may fire several selection events
+        if (this.isJumping) {
+            return;
+        }
+        // Ignore output panels and other non-document editors
+        if (e.textEditor.document.uri.scheme === 'output') {
+            return;
+        }
+        // Skip work while hidden; the provider re-syncs when the view becomes visible
+        if (!this.provider?.isVisible) {
+            return;
+        }
+
+        if (this.debounceTimer) { clearTimeout(this.debounceTimer); }
+        this.debounceTimer = setTimeout(() => {
+            this.syncToCursor(false);
+        }, this.DEBOUNCE_TIME);
+    }
+
+    public onWebviewReady() {
+        this.provider?.postMessage({ command: 'setDirection', direction: this.direction });
+        this.provider?.postMessage({ command: 'setLocked', locked: this.isLocked });
+
+        if (this.currentRoot) {
+            // Webview was (re)created: resend the current root
+            this.showRoot(this.currentRoot);
+        } else {
+            this.syncToCursor(false);
+        }
+    }
+
+    public refresh() {
+        this.syncToCursor(true);
+    }
+
+    public setLocked(locked: boolean) {
+        this.isLocked = locked;
+        vscode.commands.executeCommand('setContext', 'relationWindow.locked', locked);
+        this.provider?.postMessage({ command: 'setLocked', locked });
+
+        if (locked && this.debounceTimer) {
+            // Drop a sync that was queued just before locking
+            clearTimeout(this.debounceTimer);
+            this.debounceTimer = undefined;
+        }
+    }
+
+    public async toggleDirection() {
+        this.direction = DIRECTIONS[(DIRECTIONS.indexOf(this.direction) + 1) % DIRECTIONS.length];
+        vscode.commands.executeCommand('setContext', 'relationWindow.direction', this.direction);
+        this.provider?.postMessage({ command: 'setDirection', direction: this.direction });
+
+        let root = this.currentRoot;
+        if (!root) {
+            return;
+        }
+
+        // Switching between calls and types: re-prepare the root at the same position
+        if (!isWordRoot(root) && isTypeRoot(root) !== this.isTypeMode()) {
+            root = await this.prepareRoot(root.uri, root.selectionRange.start) ?? root;
+        }
+        await this.showRoot(root);
+    }
+
+    private isTypeMode(): boolean {
+        return this.direction === 'typeHierarchy';
+    }
+
+    private prepareRoot(uri: vscode.Uri, position: vscode.Position): Promise<vscode.CallHierarchyItem | vscode.TypeHierarchyItem | undefined> {
+        return this.isTypeMode()
+            ? this.model.prepareTypeHierarchy(uri, position)
+            : this.model.prepareCallHierarchy(uri, position);
+    }
+
+    public async syncToCursor(isManual: boolean) {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            return;
+        }
+
+        if (this.syncCts) {
+            this.syncCts.cancel();
+            this.syncCts.dispose();
+        }
+        this.syncCts = new vscode.CancellationTokenSource();
+        const token = this.syncCts.token;
+
+        const item = await this.prepareRoot(editor.document.uri, editor.selection.active);
+        if (item) {
+            // Stability check: navigating within the same function must not redraw the tree
+            if (!isManual && this.isSameRoot(item)) {
+                return;
+            }
+
+            this.history.push({ value: item, label: item.name });
+            this.updateHistoryContext();
+
+            await this.showRoot(item);
+            return;
+        }
+
+        // Fallback: no call hierarchy here. For "Called By", try references (then heuristics) of the word under the cursor.
+        if (this.direction !== 'incoming') {
+            return;
+        }
+
+        const wordRoot = this.getWordRoot(editor);
+        if (!wordRoot) {
+            // Whitespace, punctuation...: keep the last valid hierarchy
+            return;
+        }
+
+        if (!isManual && this.isSameRoot(wordRoot)) {
+            return;
+        }
+
+        const results = await this.fetchWordResults(wordRoot, token);
+        if (token.isCancellationRequested) {
+            // A newer sync took over
+            return;
+        }
+        if (results.references.length === 0 && results.heuristicCalls.length === 0) {
+            // Not a symbol (comment, keyword...): keep the last valid hierarchy
+            return;
+        }
+
+        this.history.push({ value: wordRoot, label: wordRoot.word });
+        this.updateHistoryContext();
+
+        await this.showRoot(wordRoot, results);
+    }
+
+    private async fetchWordResults(root: WordRoot, token?: vscode.CancellationToken): Promise<WordResults> {
+        const references = await this.model.getReferences(root.uri, root.position);
+        if (references.length > 0) {
+            return { references, heuristicCalls: [] };
+        }
+
+        // No language server at all: text occurrences mapped to their enclosing indexed function
+        const enabled = vscode.workspace.getConfiguration('relationWindow').get<boolean>('enableHeuristicCallers', true);
+        const heuristicCalls = enabled && !token?.isCancellationRequested ? await this.model.findHeuristicCallers(root.word, token) : [];
+        return { references, heuristicCalls };
+    }
+
+    private getWordRoot(editor: vscode.TextEditor): WordRoot | undefined {
+        const position = editor.selection.active;
+        const wordRange = editor.document.getWordRangeAtPosition(position);
+        if (!wordRange) {
+            return undefined;
+        }
+        return {
+            word: editor.document.getText(wordRange),
+            uri: editor.document.uri,
+            position: wordRange.start
+        };
+    }
+
+    public async navigateHistory(step: -1 | 1) {
+        const entry = this.history.peek(step);
+        if (!entry) {
+            return;
+        }
+
+        // Validation: the file may be gone or the symbol may have moved/vanished since
+        const resolved = await this.resolveHistoryEntry(entry.value);
+        if (!resolved) {
+            // Drop the invalid entry silently and stay on the current view
+            this.history.removeAt(step);
+            this.updateHistoryContext();
+            return;
+        }
+
+        // Navigating does NOT push a new entry
+        entry.value = resolved;
+        this.history.move(step);
+        this.updateHistoryContext();
+
+        await this.showRoot(resolved);
+    }
+
+    private async resolveHistoryEntry(item: RelationRoot): Promise<RelationRoot | undefined> {
+        try {
+            await vscode.workspace.fs.stat(item.uri);
+        } catch (e) {
+            return undefined;
+        }
+
+        if (isWordRoot(item)) {
+            // The word must still be there and still have references (or heuristic callers)
+            const document = await vscode.workspace.openTextDocument(item.uri);
+            const wordRange = document.getWordRangeAtPosition(item.position);
+            if (!wordRange || document.getText(wordRange) !== item.word) {
+                return undefined;
+            }
+            const results = await this.fetchWordResults(item);
+            return results.references.length > 0 || results.heuristicCalls.length > 0 ? item : undefined;
+        }
+
+        // Re-prepared in the current mode, so an entry recorded in another mode still resolves
+        const fresh = await this.prepareRoot(item.uri, item.selectionRange.start);
+        if (!fresh || fresh.name !== item.name) {
+            return undefined;
+        }
+        return fresh;
+    }
+
+    private updateHistoryContext() {
+        vscode.commands.executeCommand('setContext', 'relationWindow.canGoBack', this.history.canGoBack);
+        vscode.commands.executeCommand('setContext', 'relationWindow.canGoForward', this.history.canGoForward);
+    }
+
+    private isSameRoot(item: RelationRoot): boolean {
+        const root = this.currentRoot;
+        if (!root) {
+            return false;
+        }
+
+        if (isWordRoot(item) || isWordRoot(root)) {
+            // Same word and the cursor is on one of its known references (i.e. the same symbol)
+            // or, for heuristic roots which have no references, on the same line
+            return isWordRoot(item) && isWordRoot(root)
+                && root.word === item.word
+                && (this.allReferences.some(ref =>
+                    ref.uri.toString() === item.uri.toString() && ref.range.contains(item.position))
+                    || (root.uri.toString() === item.uri.toString() && root.position.line === item.position.line));
+        }
+
+        return root.uri.toString() === item.uri.toString()
+            && root.name === item.name
+            && root.range.intersection(item.range) !== undefined;
+    }
+
+    private async showRoot(root: RelationRoot, results?: WordResults) {
+        if (isWordRoot(root)) {
+            await this.showReferences(root, results);
+            return;
+        }
+
+        const requestId = this.beginRoot(root);
+        const rootItem = this.createNode(root, root.uri, root.selectionRange, false);
+        const rootPath = [this.getGraphKey(root)];
+
+        let children: RelationItem[] = [];
+        try {
+            children = await vscode.window.withProgress(
+                { location: { viewId: RelationWebviewProvider.viewType } },
+                async () => this.markCycles(await this.fetchRootChildren(root), rootPath)
+            );
+        } catch (e) {
+            console.error('[RelationWindow] Failed to fetch hierarchy', e);
+        }
+
+        // A newer request superseded this one
+        if (requestId !== this.requestId) {
+            return;
+        }
+
+        this.currentRootItem = rootItem;
+        this.currentChildren = children;
+
+        this.provider?.postMessage({
+            command: 'updateRelation',
+            requestId,
+            root: rootItem,
+            children,
+            direction: this.direction
+        });
+    }
+
+    private async fetchRootChildren(root: vscode.CallHierarchyItem | vscode.TypeHierarchyItem): Promise<RelationItem[]> {
+        // The root could not be re-prepared for the current mode: nothing to show
+        if (isTypeRoot(root) !== this.isTypeMode()) {
+            return [];
+        }
+        if (isTypeRoot(root)) {
+            return this.fetchTypeSections(root);
+        }
+        return this.fetchChildren(root, this.direction);
+    }
+
+    // Root (Class) -> Supertypes / Subtypes sections. Empty sections are omitted.
+    private async fetchTypeSections(root: vscode.TypeHierarchyItem): Promise<RelationItem[]> {
+        const [supertypes, subtypes] = await Promise.all([
+            this.fetchTypes(root, 'supertypes'),
+            this.fetchTypes(root, 'subtypes')
+        ]);
+
+        const sections: RelationItem[] = [];
+        const addSection = (typeDirection: TypeDirection, name: string, children: RelationItem[]) => {
+            if (children.length === 0) {
+                return;
+            }
+            sections.push({
+                id: `${typeDirection}-section`,
+                name,
+                detail: `${children.length}`,
+                kind: vscode.SymbolKind.Class,
+                uri: root.uri.toString(),
+                range: root.selectionRange,
+                expandable: false,
+                children
+            });
+        };
+        addSection('supertypes', 'Supertypes', supertypes);
+        addSection('subtypes', 'Subtypes', subtypes);
+        return sections;
+    }
+
+    private async fetchTypes(item: vscode.TypeHierarchyItem, typeDirection: TypeDirection): Promise<RelationItem[]> {
+        const types = typeDirection === 'supertypes'
+            ? await this.model.getSupertypes(item)
+            : await this.model.getSubtypes(item);
+        return types.map(type => this.createNode(type, type.uri, type.selectionRange, true, typeDirection));
+    }
+
+    private beginRoot(root: RelationRoot): number {
+        // Cancel any Deep Search and node expansion for the previous root
+        this.cancelDeepSearch();
+        this.expansionCts.forEach(cts => cts.cancel());
+
+        this.currentRoot = root;
+        this.itemCache.clear();
+        this.nextItemId = 0;
+        this.allReferences = [];
+        this.loadedCount = 0;
+        this.isLoadingMore = false;
+
+        return ++this.requestId;
+    }
+
+    private async showReferences(root: WordRoot, results?: WordResults) {
+        const requestId = this.beginRoot(root);
+
+        let heuristicCount = 0;
+        let children: RelationItem[] = [];
+        try {
+            children = await vscode.window.withProgress(
+                { location: { viewId: RelationWebviewProvider.viewType } },
+                async () => {
+                    // References only answer "Called By"; there is nothing to show for "Calls"
+                    if (this.direction !== 'incoming') {
+                        return [];
+                    }
+                    const { references: refs, heuristicCalls } = results ?? await this.fetchWordResults(root);
+                    if (requestId !== this.requestId) {
+                        return [];
+                    }
+                    if (heuristicCalls.length > 0) {
+                        heuristicCount = heuristicCalls.length;
+                        return this.markCycles(this.createHeuristicNodes(heuristicCalls), []);
+                    }
+                    this.allReferences = refs;
+                    this.loadedCount = Math.min(this.BATCH_SIZE, refs.length);
+                    return this.buildReferenceGroups(refs.slice(0, this.loadedCount));
+                }
+            );
+        } catch (e) {
+            console.error('[RelationWindow] Failed to fetch references', e);
+        }
+
+        if (requestId !== this.requestId) {
+            return;
+        }
+
+        const rootItem: RelationItem = {
+            id: `word-${this.nextItemId++}`,
+            name: root.word,
+            detail: heuristicCount > 0 ? `${heuristicCount} heuristic callers` : `${this.allReferences.length} references`,
+            kind: vscode.SymbolKind.String,
+            uri: root.uri.toString(),
+            range: new vscode.Range(root.position, root.position.translate(0, root.word.length)),
+            expandable: false
+        };
+
+        this.currentRootItem = rootItem;
+        this.currentChildren = children;
+
+        this.provider?.postMessage({
+            command: 'updateRelation',
+            requestId,
+            root: rootItem,
+            children,
+            direction: this.direction,
+            hasMore: this.loadedCount < this.allReferences.length
+        });
+    }
+
+    // One node per occurrence, like call sites. Expanding a node searches its own heuristic callers.
+    private createHeuristicNodes(calls: HeuristicCall[]): RelationItem[] {
+        const nodes: RelationItem[] = [];
+        for (const call of calls) {
+            for (const range of call.ranges) {
+                const node = this.createNode(call.caller, call.caller.uri, range, true);
+                this.itemCache.set(node.id, { item: call.caller, heuristic: true });
+                nodes.push({ ...node, isHeuristic: true });
+            }
+        }
+        return nodes;
+    }
+
+    public async loadMore() {
+        if (this.isLoadingMore || this.loadedCount >= this.allReferences.length) {
+            return;
+        }
+
+        this.isLoadingMore = true;
+        const requestId = this.requestId;
+        const start = this.loadedCount;
+        const end = Math.min(start + this.BATCH_SIZE, this.allReferences.length);
+
+        try {
+            const groups = await this.buildReferenceGroups(this.allReferences.slice(start, end));
+            if (requestId !== this.requestId) {
+                return;
+            }
+
+            this.loadedCount = end;
+            this.currentChildren = [...this.currentChildren, ...groups];
+            this.provider?.postMessage({
+                command: 'appendRelation',
+                requestId,
+                children: groups,
+                hasMore: this.loadedCount < this.allReferences.length
+            });
+        } finally {
+            if (requestId === this.requestId) {
+                this.isLoadingMore = false;
+            }
+        }
+    }
+
+    // Root (Word) -> File Path -> Line Number/Preview. Reference lines are leaf nodes.
+    private async buildReferenceGroups(references: vscode.Location[]): Promise<RelationItem[]> {
+        const byFile = new Map<string, vscode.Location[]>();
+        for (const ref of references) {
+            const key = ref.uri.toString();
+            if (!byFile.has(key)) {
+                byFile.set(key, []);
+            }
+            byFile.get(key)!.push(ref);
+        }
+
+        const groups: RelationItem[] = [];
+        for (const [uriStr, refs] of byFile) {
+            let document: vscode.TextDocument | undefined;
+            try {
+                document = await vscode.workspace.openTextDocument(refs[0].uri);
+            } catch (e) {
+                // Preview is optional
+            }
+
+            const lines: RelationItem[] = refs.map(ref => ({
+                id: `ref-${this.nextItemId++}`,
+                name: document ? document.lineAt(ref.range.start.line).text.trim() : '',
+                detail: `Line ${ref.range.start.line + 1}`,
+                kind: vscode.SymbolKind.String,
+                uri: uriStr,
+                range: ref.range,
+                expandable: false
+            }));
+
+            const relativePath = vscode.workspace.asRelativePath(refs[0].uri, false);
+            groups.push({
+                // Stable per file so that a file split across pages is merged by the webview
+                id: `ref-file-${uriStr}`,
+                name: path.basename(refs[0].uri.fsPath),
+                detail: path.dirname(relativePath),
+                kind: vscode.SymbolKind.File,
+                uri: uriStr,
+                range: refs[0].range,
+                expandable: false,
+                children: lines
+            });
+        }
+        return groups;
+    }
+
+    public async resolveHierarchy(itemId: string, direction: RelationDirection) {
+        const cached = this.itemCache.get(itemId);
+        if (!cached) {
+            // Root changed since the node was rendered
+            return;
+        }
+
+        const requestId = this.requestId;
+        const cts = new vscode.CancellationTokenSource();
+        this.expansionCts.get(itemId)?.cancel();
+        this.expansionCts.set(itemId, cts);
+        try {
+            const children = await this.fetchNodeChildren(cached, direction, cts.token);
+            if (requestId !== this.requestId || cts.token.isCancellationRequested) {
+                return;
+            }
+            this.provider?.postMessage({ command: 'updateNode', requestId, itemId, children });
+        } catch (e) {
+            if (cts.token.isCancellationRequested) {
+                return;
+            }
+            // The cached item (specifically its Range) is outdated after the file was modified
+            console.error('[RelationWindow] Failed to resolve hierarchy (stale data?)', e);
+            this.provider?.postMessage({ command: 'stale' });
+            this.provider?.postMessage({ command: 'updateNode', requestId, itemId, children: [] });
+        } finally {
+            if (this.expansionCts.get(itemId) === cts) {
+                this.expansionCts.delete(itemId);
+            }
+            cts.dispose();
+        }
+    }
+
+    /** The node was collapsed while its children were loading (the webview forgets the request). */
+    public cancelHierarchy(itemId: string) {
+        this.expansionCts.get(itemId)?.cancel();
+    }
+
+    // Errors are NOT caught here (stale detection)
+    private async fetchNodeChildren(cached: CachedNode, direction: RelationDirection, token?: vscode.CancellationToken): Promise<RelationItem[]> {
+        const item = cached.item;
+        let children: RelationItem[];
+        if (cached.heuristic) {
+            // Heuristics only answer "Called By"
+            children = direction === 'incoming'
+                ? this.createHeuristicNodes(await this.model.findHeuristicCallers(item.name, token))
+                : [];
+        } else if (isTypeRoot(item)) {
+            children = await this.fetchTypes(item, cached.typeDirection ?? 'subtypes');
+        } else {
+            children = await this.fetchChildren(item, direction);
+        }
+        return this.markCycles(children, cached.path ?? []);
+    }
+
+    // Cycle guard: a node that already appears on the path from the root (recursion) is marked and never expanded
+    private markCycles(nodes: RelationItem[], parentPath: string[]): RelationItem[] {
+        return nodes.map(node => {
+            if (node.children) {
+                // Inline groups (type hierarchy sections) do not add a level to the path
+                return { ...node, children: this.markCycles(node.children, parentPath) };
+            }
+            const cached = this.itemCache.get(node.id);
+            if (!cached) {
+                return node;
+            }
+            const key = this.getGraphKey(cached.item);
+            cached.path = [...parentPath, key];
+            return parentPath.includes(key) ? { ...node, expandable: false, isCycle: true } : node;
+        });
+    }
+
+    public async expandAll() {
+        const rootItem = this.currentRootItem;
+        if (!rootItem) {
+            return;
+        }
+
+        const defaultDepth = vscode.workspace.getConfiguration('relationWindow').get<number>('expandAllDepth', 3);
+        const input = await vscode.window.showInputBox({
+            prompt: 'Expand all nodes down to this depth (recursive calls are not expanded)',
+            value: `${defaultDepth}`,
+            validateInput: value => /^([1-9]|10)$/.test(value.trim()) ? undefined : 'Enter a depth between 1 and 10'
+        });
+        if (!input) {
+            return;
+        }
+        const depth = parseInt(input.trim(), 10);
+
+        const requestId = this.requestId;
+        const direction = this.direction;
+        const expandedIds: string[] = [rootItem.id];
+
+        // Registered under the root item, so a root change or refresh (beginRoot) stops the heuristic searches
+        const cts = new vscode.CancellationTokenSource();
+        this.expansionCts.get(rootItem.id)?.cancel();
+        this.expansionCts.set(rootItem.id, cts);
+
+        await vscode.window.withProgress(
+            { location: { viewId: RelationWebviewProvider.viewType } },
+            async () => {
+                // Root children are level 1; expanding level N-1 shows N levels
+                let level = this.currentChildren;
+                for (let d = 1; d < depth && level.length > 0; d++) {
+                    const next: RelationItem[] = [];
+                    for (const node of level) {
+                        if (requestId !== this.requestId || cts.token.isCancellationRequested) {
+                            return;
+                        }
+                        if (node.children) {
+                            // Inline group: already resolved
+                            expandedIds.push(node.id);
+                            next.push(...node.children);
+                            continue;
+                        }
+                        const cached = this.itemCache.get(node.id);
+                        if (!node.expandable || !cached) {
+                            // Leaf, cycle or reference line
+                            continue;
+                        }
+
+                        let children: RelationItem[] = [];
+                        try {
+                            children = await this.fetchNodeChildren(cached, direction, cts.token);
+                        } catch (e) {
+                            if (cts.token.isCancellationRequested) {
+                                return;
+                            }
+                            console.error('[RelationWindow] Failed to expand node (stale data?)', e);
+                            this.provider?.postMessage({ command: 'stale' });
+                        }
+                        if (cts.token.isCancellationRequested) {
+                            return;
+                        }
+                        this.provider?.postMessage({ command: 'updateNode', requestId, itemId: node.id, children });
+                        expandedIds.push(node.id);
+                        next.push(...children);
+                    }
+                    level = next;
+                }
+            }
+        );
+
+        const cancelled = cts.token.isCancellationRequested;
+        if (this.expansionCts.get(rootItem.id) === cts) {
+            this.expansionCts.delete(rootItem.id);
+        }
+        cts.dispose();
+
+        if (requestId === this.requestId && !cancelled) {
+            this.provider?.postMessage({ command: 'expandNodes', itemIds: expandedIds });
+        }
+    }
+
+    private async fetchChildren(item: vscode.CallHierarchyItem, direction: RelationDirection): Promise<RelationItem[]> {
+        const nodes: RelationItem[] = [];
+
+        // One node per call range (a function calling the target twice shows up twice)
+        if (direction === 'incoming') {
+            const calls = await this.model.getIncomingCalls(item);
+            for (const call of calls) {
+                for (const range of call.fromRanges) {
+                    nodes.push(this.createNode(call.from, call.from.uri, range, true));
+                }
+            }
+        } else {
+            const calls = await this.model.getOutgoingCalls(item);
+            for (const call of calls) {
+                // For outgoing calls, fromRanges are relative to the caller (the parent item)
+                for (const range of call.fromRanges) {
+                    nodes.push(this.createNode(call.to, item.uri, range, true));
+                }
+            }
+        }
+
+        return nodes;
+    }
+
+    private createNode(
+        item: vscode.CallHierarchyItem | vscode.TypeHierarchyItem,
+        uri: vscode.Uri,
+        range: vscode.Range,
+        expandable: boolean,
+        typeDirection?: TypeDirection
+    ): RelationItem {
+        const id = `${this.nextItemId++}`;
+        this.itemCache.set(id, { item, typeDirection });
+
+        return {
+            id,
+            name: item.name,
+            detail: `${vscode.workspace.asRelativePath(uri, false)}:${range.start.line + 1}`,
+            kind: item.kind,
+            uri: uri.toString(),
+            range,
+            expandable
+        };
+    }
+
+    public async exportGraph() {
+        const root = this.currentRoot;
+        if (!(root instanceof vscode.CallHierarchyItem) || this.isTypeMode()) {
+            vscode.window.showInformationMessage('Relation Window: Show the callers or callees of a function to export its call graph.');
+            return;
+        }
+
+        const formats: (vscode.QuickPickItem & { format: GraphFormat; language: string })[] = [
+            { label: 'Mermaid', description: 'flowchart', format: 'mermaid', language: 'plaintext' },
+            { label: 'Graphviz DOT', description: 'digraph', format: 'dot', language: 'plaintext' },
+            { label: 'JSON', description: 'nodes and edges', format: 'json', language: 'json' }
+        ];
+        const picked = await vscode.window.showQuickPick(formats, { placeHolder: `Export the call graph of '${root.name}' as...` });
+        if (!picked) {
+            return;
+        }
+
+        const depth = vscode.workspace.getConfiguration('relationWindow').get<number>('exportDepth', 3);
+        const direction = this.direction;
+        const graph = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Relation Window: Exporting call graph of '${root.name}'`,
+                cancellable: true
+            },
+            (_progress, token) => this.collectGraph(root, direction, depth, token)
+        );
+        if (!graph) {
+            // Cancelled
+            return;
+        }
+
+        const document = await vscode.workspace.openTextDocument({
+            content: formatGraph(graph, picked.format),
+            language: picked.language
+        });
+        await vscode.window.showTextDocument(document, { preview: false });
+    }
+
+    // Breadth-first walk of the call hierarchy. Every function is expanded once, which also stops recursion.
+    private async collectGraph(
+        root: vscode.CallHierarchyItem,
+        direction: RelationDirection,
+        depth: number,
+        token: vscode.CancellationToken
+    ): Promise<CallGraph | undefined> {
+        const builder = new CallGraphBuilder();
+        const rootId = builder.addNode(this.getGraphKey(root), this.toGraphNode(root));
+        let frontier = [{ item: root, id: rootId }];
+
+        for (let level = 0; level < depth && frontier.length > 0; level++) {
+            const next: { item: vscode.CallHierarchyItem; id: string }[] = [];
+
+            for (const { item, id } of frontier) {
+                if (token.isCancellationRequested) {
+                    return undefined;
+                }
+
+                let targets: { item: vscode.CallHierarchyItem; callSites: number }[];
+                try {
+                    targets = direction === 'incoming'
+                        ? (await this.model.getIncomingCalls(item)).map(call => ({ item: call.from, callSites: call.fromRanges.length }))
+                        : (await this.model.getOutgoingCalls(item)).map(call => ({ item: call.to, callSites: call.fromRanges.length }));
+                } catch (e) {
+                    console.error('[RelationWindow] Failed to expand node for export', e);
+                    continue;
+                }
+
+                for (const target of targets) {
+                    const key = this.getGraphKey(target.item);
+                    const isNew = !builder.hasNode(key);
+                    const targetId = builder.addNode(key, this.toGraphNode(target.item));
+
+                    // Edges always point from caller to callee
+                    if (direction === 'incoming') {
+                        builder.addEdge(targetId, id, target.callSites);
+                    } else {
+                        builder.addEdge(id, targetId, target.callSites);
+                    }
+
+                    if (isNew) {
+                        next.push({ item: target.item, id: targetId });
+                    }
+                }
+            }
+            frontier = next;
+        }
+
+        return builder.build(rootId, direction, depth);
+    }
+
+    private getGraphKey(item: vscode.CallHierarchyItem | vscode.TypeHierarchyItem): string {
+        const start = item.selectionRange.start;
+        return `${item.uri.toString()}#${start.line}:${start.character}`;
+    }
+
+    private toGraphNode(item: vscode.CallHierarchyItem): Omit<GraphNode, 'id'> {
+        const range = item.selectionRange;
+        return {
+            name: item.name,
+            kind: item.kind,
+            kindName: vscode.SymbolKind[item.kind],
+            uri: item.uri.toString(),
+            range: {
+                start: { line: range.start.line, character: range.start.character },
+                end: { line: range.end.line, character: range.end.character }
+            }
+        };
+    }
+
+    public async setCallPathStart(menuContext?: SymbolMenuContext) {
+        const item = await this.prepareFromMenuContext(menuContext);
+        if (!item) {
+            vscode.window.showInformationMessage('Relation Window: No call hierarchy is available for this symbol.');
+            return;
+        }
+
+        this.callPathStart = item;
+        vscode.commands.executeCommand('setContext', 'relationWindow.hasCallPathStart', true);
+        vscode.window.setStatusBarMessage(`Relation Window: Call path start set to '${item.name}'`, 3000);
+    }
+
+    public async findCallPaths(menuContext?: SymbolMenuContext) {
+        const from = this.callPathStart;
+        if (!from) {
+            vscode.window.showInformationMessage('Relation Window: Set a call path start first ("Set as Call Path Start").');
+            return;
+        }
+
+        const to = await this.prepareFromMenuContext(menuContext);
+        if (!to) {
+            vscode.window.showInformationMessage('Relation Window: No call hierarchy is available for this symbol.');
+            return;
+        }
+
+        const config = vscode.workspace.getConfiguration('relationWindow');
+        const maxDepth = config.get<number>('callPathMaxDepth', 6);
+        const maxNodes = config.get<number>('callPathMaxNodes', 500);
+
+        let cancelled = false;
+        const result = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Relation Window: Finding call paths from '${from.name}' to '${to.name}'`,
+                cancellable: true
+            },
+            (_progress, token) => findCallPaths(
+                from,
+                to,
+                item => this.getGraphKey(item),
+                async item => {
+                    if (token.isCancellationRequested) {
+                        cancelled = true;
+                        return [];
+                    }
+                    try {
+                        return (await this.model.getOutgoingCalls(item)).map(call => call.to);
+                    } catch (e) {
+                        // Stale or unsupported item: treat as a leaf
+                        return [];
+                    }
+                },
+                { maxDepth, maxNodes }
+            )
+        );
+
+        if (cancelled) {
+            // The search stopped early: "no path" would not be true
+            vscode.window.showInformationMessage('Relation Window: Call path search cancelled.');
+            return;
+        }
+
+        if (result.paths.length === 0) {
+            const reason = result.truncated ? ` (search stopped after ${maxNodes} functions)` : '';
+            vscode.window.showInformationMessage(
+                `Relation Window: No call path from '${from.name}' to '${to.name}' within ${maxDepth} levels${reason}.`
+            );
+            return;
+        }
+
+        await vscode.commands.executeCommand(`${RelationWebviewProvider.viewType}.focus`);
+        this.showCallPaths(from, to, result.paths);
+    }
+
+    private async prepareFromMenuContext(menuContext?: SymbolMenuContext): Promise<vscode.CallHierarchyItem | undefined> {
+        const editor = vscode.window.activeTextEditor;
+        if (!menuContext) {
+            // Invoked from the Command Palette: use the cursor
+            return editor ? this.model.prepareCallHierarchy(editor.document.uri, editor.selection.active) : undefined;
+        }
+
+        // Current Document mode items have no uri: they belong to the active editor
+        const uri = menuContext.symbolUri ? vscode.Uri.parse(menuContext.symbolUri) : editor?.document.uri;
+        if (!uri) {
+            return undefined;
+        }
+        return this.model.prepareCallHierarchy(uri, new vscode.Position(menuContext.line, menuContext.character));
+    }
+
+    // Paths are merged by common prefix into a tree rooted at "from"
+    private showCallPaths(from: vscode.CallHierarchyItem, to: vscode.CallHierarchyItem, paths: vscode.CallHierarchyItem[][]) {
+        const requestId = this.beginRoot(from);
+        const rootItem = this.createNode(from, from.uri, from.selectionRange, false);
+
+        const children: RelationItem[] = [];
+        const nodesByPrefix = new Map<string, RelationItem>();
+        for (const path of paths) {
+            let siblings = children;
+            let prefix = '';
+            for (const item of path.slice(1)) {
+                prefix += `>${this.getGraphKey(item)}`;
+                let node = nodesByPrefix.get(prefix);
+                if (!node) {
+                    node = { ...this.createNode(item, item.uri, item.selectionRange, false), children: [] };
+                    nodesByPrefix.set(prefix, node);
+                    siblings.push(node);
+                }
+                siblings = node.children!;
+            }
+        }
+
+        this.currentRootItem = rootItem;
+        this.currentChildren = children;
+
+        this.provider?.postMessage({
+            command: 'updateRelation',
+            requestId,
+            root: rootItem,
+            children,
+            direction: this.direction,
+            title: `Call Paths: ${from.name} → ${to.name} (${paths.length})`
+        });
+    }
+
+    public async deepSearch() {
+        const config = vscode.workspace.getConfiguration('relationWindow');
+        if (!config.get<boolean>('enableDeepSearch', true)) {
+            return;
+        }
+
+        const rootItem = this.currentRootItem;
+        if (!rootItem) {
+            vscode.window.showInformationMessage('Relation Window: Place the cursor on a symbol first.');
+            return;
+        }
+
+        this.cancelDeepSearch();
+        this.deepSearchCts = new vscode.CancellationTokenSource();
+        const token = this.deepSearchCts.token;
+        const requestId = this.requestId;
+
+        try {
+            const occurrences = await vscode.window.withProgress(
+                { location: { viewId: RelationWebviewProvider.viewType } },
+                () => this.model.findTextOccurrences(rootItem.name, token)
+            );
+
+            if (token.isCancellationRequested || requestId !== this.requestId) {
+                return;
+            }
+
+            // Deduplicate against semantic results (same file, same line)
+            const existingKeys = new Set<string>();
+            existingKeys.add(`${rootItem.uri}|${rootItem.range.start.line}`);
+            this.currentChildren.forEach(c => {
+                existingKeys.add(`${c.uri}|${c.range.start.line}`);
+            });
+            // Includes reference pages that were not loaded yet
+            this.allReferences.forEach(ref => {
+                existingKeys.add(`${ref.uri.toString()}|${ref.range.start.line}`);
+            });
+
+            // Group by file
+            const groups = new Map<string, RelationItem[]>();
+            for (const occ of occurrences) {
+                const uriStr = occ.uri.toString();
+                const key = `${uriStr}|${occ.range.start.line}`;
+                if (existingKeys.has(key)) {
+                    continue;
+                }
+                existingKeys.add(key);
+
+                if (!groups.has(uriStr)) {
+                    groups.set(uriStr, []);
+                }
+                groups.get(uriStr)!.push({
+                    id: `text-${this.nextItemId++}`,
+                    name: occ.preview,
+                    detail: `Line ${occ.range.start.line + 1}`,
+                    kind: vscode.SymbolKind.String,
+                    uri: uriStr,
+                    range: occ.range,
+                    expandable: false,
+                    isDeepSearch: true
+                });
+            }
+
+            const fileNodes: RelationItem[] = [];
+            for (const [uriStr, lines] of groups) {
+                const uri = vscode.Uri.parse(uriStr);
+                const relativePath = vscode.workspace.asRelativePath(uri, false);
+                fileNodes.push({
+                    id: `file-${this.nextItemId++}`,
+                    name: path.basename(uri.fsPath),
+                    detail: `${path.dirname(relativePath)} (${lines.length})`,
+                    kind: vscode.SymbolKind.File,
+                    uri: uriStr,
+                    range: lines[0].range,
+                    expandable: false,
+                    children: lines,
+                    isDeepSearch: true
+                });
+            }
+
+            if (fileNodes.length === 0) {
+                vscode.window.showInformationMessage(`Relation Window: No additional text matches for '${rootItem.name}'.`);
+                return;
+            }
+
+            this.currentChildren = [...this.currentChildren, ...fileNodes];
+            this.provider?.postMessage({ command: 'appendRelation', requestId, children: fileNodes });
+        } catch (e) {
+            console.error('[RelationWindow] Deep search failed', e);
+        }
+    }
+
+    private cancelDeepSearch() {
+        if (this.deepSearchCts) {
+            this.deepSearchCts.cancel();
+            this.deepSearchCts.dispose();
+            this.deepSearchCts = undefined;
+        }
+    }
+
+    public async jumpTo(uriStr: string, range: any, preview: boolean) {
+        const uri = vscode.Uri.parse(uriStr);
+        const selection = new vscode.Range(range[0].line, range[0].character, range[1].line, range[1].character);
+
+        this.startJumpSuppression();
+
+        try {
+            // Preview keeps focus in the Relation Window so arrow-key navigation keeps working
+            await vscode.window.showTextDocument(uri, preview
+                ? { selection, preserveFocus: true, preview: true }
+                : { selection });
+        } catch (e) {
+            console.error('[RelationWindow] Failed to open document', e);
+        } finally {
+            // Keep suppressing for a short window: VS Code may fire several selection
+            // events (focus change + cursor move + scroll) for a single jump
+            if (this.jumpWindowTimer) { clearTimeout(this.jumpWindowTimer); }
+            this.jumpWindowTimer = setTimeout(() => this.endJumpSuppression(), this.JUMP_SUPPRESSION_WINDOW);
+        }
+    }
+
+    private startJumpSuppression() {
+        this.isJumping = true;
+
+        // A sync queued before the jump would re-root the view on the target
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+            this.debounceTimer = undefined;
+        }
+
+        // Safety timeout: never leave the flag stuck (e.g. jumping to the exact same location)
+        if (this.jumpSafetyTimer) { clearTimeout(this.jumpSafetyTimer); }
+        this.jumpSafetyTimer = setTimeout(() => this.endJumpSuppression(), this.JUMP_SAFETY_TIMEOUT);
+    }
+
+    private endJumpSuppression() {
+        this.isJumping = false;
+        if (this.jumpWindowTimer) {
+            clearTimeout(this.jumpWindowTimer);
+            this.jumpWindowTimer = undefined;
+        }
+        if (this.jumpSafetyTimer) {
+            clearTimeout(this.jumpSafetyTimer);
+            this.jumpSafetyTimer = undefined;
+        }
+    }
+}
@@ -0,0 +1,116 @@
+export type GraphFormat = 'mermaid' | 'dot' | 'json';
+
+export interface GraphPosition {
+    line: number;
+    character: number;
+}
+
+export interface GraphNode {
+    id: string;
+    name: string;
+    kind: number;
+    kindName: string;
+    uri: string;
+    range: { start: GraphPosition; end: GraphPosition };
+}
+
+/** Caller -> Callee, regardless of the direction the graph was walked in. */
+export interface GraphEdge {
+    from: string;
+    to: string;
+    callSites: number;
+}
+
+export interface CallGraph {
+    root: string;
+    direction: string;
+    depth: number;
+    nodes: GraphNode[];
+    edges: GraphEdge[];
+}
+
+/**
+ * Collects nodes and edges while walking a hierarchy.
+ * Nodes are keyed by location, so a function reached twice (or recursively) is added once.
+ */
+export class CallGraphBuilder {
+    private nodes = new Map<string, GraphNode>();
+    private edges = new Map<string, GraphEdge>();
+
+    public hasNode(key: string): boolean {
+        return this.nodes.has(key);
+    }
+
+    /** Returns the node id for the key, adding the node the first time it is seen. */
+    public addNode(key: string, node: Omit<GraphNode, 'id'>): string {
+        const existing = this.nodes.get(key);
+        if (existing) {
+            return existing.id;
+        }
+        const id = `n${this.nodes.size}`;
+        this.nodes.set(key, { id, ...node });
+        return id;
+    }
+
+    public addEdge(from: string, to: string, callSites: number) {
+        const key = `${from}->${to}`;
+        const existing = this.edges.get(key);
+        if (existing) {
+            existing.callSites += callSites;
+        } else {
+            this.edges.set(key, { from, to, callSites });
+        }
+    }
+
+    public build(root: string, direction: string, depth: number): CallGraph {
+        return {
+            root,
+            direction,
+            depth,
+            nodes: Array.from(this.nodes.values()),
+            edges: Array.from(this.edges.values())
+        };
+    }
+}
+
+export function formatGraph(graph: CallGraph, format: GraphFormat): string {
+    switch (format) {
+        case 'mermaid':
+            return toMermaid(graph);
+        case 'dot':
+            return toDot(graph);
+        case 'json':
+            return JSON.stringify(graph, null, 2);
+    }
+}
+
+function toMermaid(graph: CallGraph): string {
+    // Mermaid has no string escapes; quotes use its HTML entity syntax
+    const label = (text: string) => `"${text.replace(/"/g, '#quot;')}"`;
+
+    const lines = ['flowchart LR'];
+    graph.nodes.forEach(node => {
+        lines.push(`    ${node.id}[${label(node.name)}]`);
+    });
+    graph.edges.forEach(edge => {
+        const arrow = edge.callSites > 1 ? `-->|${edge.callSites}|` : '-->';
+        lines.push(`    ${edge.from} ${arrow} ${edge.to}`);
+    });
+    return lines.join('\n') + '\n';
+}
+
+function toDot(graph: CallGraph): string {
+    const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+    const lines = ['digraph CallGraph {', '    rankdir=LR;', '    node [shape=box];'];
+    graph.nodes.forEach(node => {
+        const style = node.id === graph.root ? ', style=bold' : '';
+        lines.push(`    ${node.id} [label=${quote(node.name)}, tooltip=${quote(node.uri)}${style}];`);
+    });
+    graph.edges.forEach(edge => {
+        const label = edge.callSites > 1 ? ` [label="${edge.callSites}"]` : '';
+        lines.push(`    ${edge.from} -> ${edge.to}${label};`);
+    });
+    lines.push('}');
+    return lines.join('\n') + '\n';
+}
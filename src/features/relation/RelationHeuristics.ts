@@ -0,0 +1,23 @@
+import type { SymbolRecord } from '../../shared/db/database';
+
+/**
+ * Innermost symbol whose range contains the line (nested functions, methods inside classes...).
+ * Used to turn a text occurrence into a "caller" when there is no call hierarchy.
+ */
+export function findEnclosingSymbol(symbols: SymbolRecord[], line: number): SymbolRecord | undefined {
+    let best: SymbolRecord | undefined;
+    for (const sym of symbols) {
+        if (line < sym.range_start_line || line > sym.range_end_line) {
+            continue;
+        }
+        if (!best || (sym.range_end_line - sym.range_start_line) < (best.range_end_line - best.range_start_line)) {
+            best = sym;
+        }
+    }
+    return best;
+}
+
+/** An occurrence on the symbol's own declaration line is the definition (or a prototype), not a call. */
+export function isDeclarationOf(sym: SymbolRecord, word: string, line: number): boolean {
+    return sym.name === word && sym.selection_range_start_line === line;
+}
@@ -0,0 +1,372 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import { rgPath } from '@vscode/ripgrep';
+import { LspClient } from '../../shared/core/LspClient';
+import { DatabaseManager } from '../../shared/core/DatabaseManager';
+import { CallRecord, SymbolRecord } from '../../shared/db/database';
+import { findEnclosingSymbol, isDeclarationOf } from './RelationHeuristics';
+
+export interface TextOccurrence {
+    uri: vscode.Uri;
+    range: vscode.Range;
+    preview: string;
+}
+
+/** Function containing text occurrences of a word. One entry per caller with all of its occurrence ranges. */
+export interface HeuristicCall {
+    caller: vscode.CallHierarchyItem;
+    ranges: vscode.Range[];
+}
+
+/** Root used by the References Fallback when there is no call hierarchy at the cursor. */
+export interface WordRoot {
+    word: string;
+    uri: vscode.Uri;
+    position: vscode.Position;
+}
+
+export type RelationRoot = vscode.CallHierarchyItem | vscode.TypeHierarchyItem | WordRoot;
+
+export function isWordRoot(root: RelationRoot): root is WordRoot {
+    return (root as WordRoot).word !== undefined;
+}
+
+export function isTypeRoot(root: RelationRoot): root is vscode.TypeHierarchyItem {
+    return root instanceof vscode.TypeHierarchyItem;
+}
+
+export class RelationModel {
+
+    constructor(
+        private lspClient: LspClient,
+        private dbManager: DatabaseManager
+    ) {}
+
+    // While the language server is loading (or timed out), answer from the call edges in the symbol database
+    private get useIndex(): boolean {
+        return this.lspClient.status !== 'ready' && !!this.dbManager.db;
+    }
+
+    public async prepareCallHierarchy(uri: vscode.Uri, position: vscode.Position): Promise<vscode.CallHierarchyItem | undefined> {
+        const item = await this.prepareCallHierarchyFromLsp(uri, position);
+        if (!item && this.useIndex) {
+            return this.prepareCallHierarchyFromIndex(uri, position);
+        }
+        return item;
+    }
+
+    private async prepareCallHierarchyFromLsp(uri: vscode.Uri, position: vscode.Position): Promise<vscode.CallHierarchyItem | undefined> {
+        try {
+            const items = await vscode.commands.executeCommand<vscode.CallHierarchyItem | vscode.CallHierarchyItem[]>(
+                'vscode.prepareCallHierarchy',
+                uri,
+                position
+            );
+
+            if (!items) {
+                return undefined;
+            }
+
+            // The API may return a single item or an array. Use the first item as the candidate.
+            if (Array.isArray(items)) {
+                return items.length > 0 ? items[0] : undefined;
+            }
+            return items;
+        } catch (e) {
+            console.error('[RelationModel] prepareCallHierarchy failed', e);
+            return undefined;
+        }
+    }
+
+    // Errors are NOT caught here: the controller needs them to detect stale items.
+    public async getIncomingCalls(item: vscode.CallHierarchyItem): Promise<vscode.CallHierarchyIncomingCall[]> {
+        const indexed = this.useIndex ? this.getCallsFromIndex(item, 'incoming') : undefined;
+        if (indexed) {
+            return indexed.map(c => new vscode.CallHierarchyIncomingCall(c.item, c.ranges));
+        }
+
+        const calls = await vscode.commands.executeCommand<vscode.CallHierarchyIncomingCall[]>(
+            'vscode.provideIncomingCalls',
+            item
+        );
+        return calls || [];
+    }
+
+    public async getOutgoingCalls(item: vscode.CallHierarchyItem): Promise<vscode.CallHierarchyOutgoingCall[]> {
+        const indexed = this.useIndex ? this.getCallsFromIndex(item, 'outgoing') : undefined;
+        if (indexed) {
+            return indexed.map(c => new vscode.CallHierarchyOutgoingCall(c.item, c.ranges));
+        }
+
+        const calls = await vscode.commands.executeCommand<vscode.CallHierarchyOutgoingCall[]>(
+            'vscode.provideOutgoingCalls',
+            item
+        );
+        return calls || [];
+    }
+
+    private prepareCallHierarchyFromIndex(uri: vscode.Uri, position: vscode.Position): vscode.CallHierarchyItem | undefined {
+        try {
+            const record = this.dbManager.db?.findSymbolAt(uri.fsPath, position.line, position.character);
+            return record ? this.toCallHierarchyItem(record) : undefined;
+        } catch (e) {
+            console.error('[RelationModel] Index lookup failed', e);
+            return undefined;
+        }
+    }
+
+    /** Returns undefined when the symbol is not indexed, so the caller can fall back to the language server. */
+    private getCallsFromIndex(
+        item: vscode.CallHierarchyItem,
+        direction: 'incoming' | 'outgoing'
+    ): { item: vscode.CallHierarchyItem; ranges: vscode.Range[] }[] | undefined {
+        const db = this.dbManager.db;
+        if (!db) {
+            return undefined;
+        }
+
+        try {
+            const start = item.selectionRange.start;
+            const symbol = db.findSymbolAt(item.uri.fsPath, start.line, start.character);
+            if (!symbol) {
+                return undefined;
+            }
+
+            const records = direction === 'incoming' ? db.getCallers(symbol.id) : db.getCallees(symbol.id);
+
+            // One entry per symbol with all of its call sites, like the call hierarchy API
+            const grouped = new Map<number, { item: vscode.CallHierarchyItem; ranges: vscode.Range[] }>();
+            for (const record of records) {
+                let entry = grouped.get(record.id);
+                if (!entry) {
+                    entry = { item: this.toCallHierarchyItem(record), ranges: [] };
+                    grouped.set(record.id, entry);
+                }
+                entry.ranges.push(this.toCallRange(record));
+            }
+            return Array.from(grouped.values());
+        } catch (e) {
+            console.error('[RelationModel] Index lookup failed', e);
+            return undefined;
+        }
+    }
+
+    private toCallHierarchyItem(record: SymbolRecord): vscode.CallHierarchyItem {
+        return new vscode.CallHierarchyItem(
+            record.kind,
+            record.name,
+            // The indexed declaration line stands in for the LSP detail while the LSP is not ready
+            record.detail || record.declaration || '',
+            vscode.Uri.file(record.file_path!),
+            new vscode.Range(record.range_start_line, record.range_start_char, record.range_end_line, record.range_end_char),
+            new vscode.Range(
+                record.selection_range_start_line,
+                record.selection_range_start_char,
+                record.selection_range_end_line,
+                record.selection_range_end_char
+            )
+        );
+    }
+
+    private toCallRange(record: CallRecord): vscode.Range {
+        return new vscode.Range(record.call_start_line, record.call_start_char, record.call_end_line, record.call_end_char);
+    }
+
+    public async prepareTypeHierarchy(uri: vscode.Uri, position: vscode.Position): Promise<vscode.TypeHierarchyItem | undefined> {
+        try {
+            const items = await vscode.commands.executeCommand<vscode.TypeHierarchyItem[]>(
+                'vscode.prepareTypeHierarchy',
+                uri,
+                position
+            );
+            return items && items.length > 0 ? items[0] : undefined;
+        } catch (e) {
+            console.error('[RelationModel] prepareTypeHierarchy failed', e);
+            return undefined;
+        }
+    }
+
+    // Errors are NOT caught here either (stale detection)
+    public async getSupertypes(item: vscode.TypeHierarchyItem): Promise<vscode.TypeHierarchyItem[]> {
+        const items = await vscode.commands.executeCommand<vscode.TypeHierarchyItem[]>(
+            'vscode.provideSupertypes',
+            item
+        );
+        return items || [];
+    }
+
+    public async getSubtypes(item: vscode.TypeHierarchyItem): Promise<vscode.TypeHierarchyItem[]> {
+        const items = await vscode.commands.executeCommand<vscode.TypeHierarchyItem[]>(
+            'vscode.provideSubtypes',
+            item
+        );
+        return items || [];
+    }
+
+    /** References sorted by file path, then line. */
+    public async getReferences(uri: vscode.Uri, position: vscode.Position): Promise<vscode.Location[]> {
+        try {
+            const locations = await vscode.commands.executeCommand<vscode.Location[]>(
+                'vscode.executeReferenceProvider',
+                uri,
+                position
+            );
+            return (locations || []).sort((a, b) => {
+                const pathCompare = a.uri.fsPath.localeCompare(b.uri.fsPath);
+                return pathCompare !== 0 ? pathCompare : a.range.start.line - b.range.start.line;
+            });
+        } catch (e) {
+            console.error('[RelationModel] executeReferenceProvider failed', e);
+            return [];
+        }
+    }
+
+    /**
+     * Callers without language server support (plain C, assembly, scripts):
+     * every text occurrence of the word is attributed to the indexed function that encloses it.
+     */
+    public async findHeuristicCallers(word: string, token?: vscode.CancellationToken): Promise<HeuristicCall[]> {
+        const db = this.dbManager.db;
+        if (!db) {
+            return [];
+        }
+
+        const occurrences = await this.findTextOccurrences(word, token);
+
+        const byFile = new Map<string, TextOccurrence[]>();
+        for (const occurrence of occurrences) {
+            const filePath = occurrence.uri.fsPath;
+            if (!byFile.has(filePath)) {
+                byFile.set(filePath, []);
+            }
+            byFile.get(filePath)!.push(occurrence);
+        }
+
+        const callers = new Map<number, HeuristicCall>();
+        for (const [filePath, fileOccurrences] of byFile) {
+            let symbols: SymbolRecord[];
+            try {
+                symbols = db.getCallableSymbols(filePath);
+            } catch (e) {
+                console.error('[RelationModel] Index lookup failed', e);
+                return [];
+            }
+
+            for (const occurrence of fileOccurrences) {
+                const line = occurrence.range.start.line;
+                const enclosing = findEnclosingSymbol(symbols, line);
+                // Occurrences outside any function (globals, macros...) cannot be attributed
+                if (!enclosing || isDeclarationOf(enclosing, word, line)) {
+                    continue;
+                }
+
+                let call = callers.get(enclosing.id);
+                if (!call) {
+                    call = { caller: this.toCallHierarchyItem(enclosing), ranges: [] };
+                    callers.set(enclosing.id, call);
+                }
+                call.ranges.push(occurrence.range);
+            }
+        }
+
+        return Array.from(callers.values()).sort((a, b) => {
+            const pathCompare = a.caller.uri.fsPath.localeCompare(b.caller.uri.fsPath);
+            return pathCompare !== 0 ? pathCompare : a.ranges[0].start.line - b.ranges[0].start.line;
+        });
+    }
+
+    public async findTextOccurrences(
+        word: string,
+        token?: vscode.CancellationToken,
+        maxResults: number = 500
+    ): Promise<TextOccurrence[]> {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        if (folders.length === 0 || !word) {
+            return [];
+        }
+
+        // rg arguments:
+        // --json: Structured output (robust against ':' in paths and previews)
+        // --word-regexp (-w) + --fixed-strings (-F): Whole-word literal match of the symbol name
+        // --max-columns: Ignore lines longer than 1000 chars (avoids minified files)
+        const args = [
+            '--json', '-w', '-F', '--max-columns', '1000',
+            '--glob', '!**/*.{txt,log,lock,map,pdf,doc,docx,xls,xlsx,ppt,pptx,png,jpg,jpeg,gif,bmp,ico,svg,mp3,mp4,wav,zip,tar,gz,7z,rar,bin,exe,dll,so,dylib,pdb,obj,o,a,min.js,min.css}',
+            '--', word,
+            '.'
+        ];
+
+        // Same exclusions as the indexer (shared.excludeFiles), so text matches stay within indexed files
+        const excludeFiles = vscode.workspace.getConfiguration('shared').get<string>('excludeFiles', '');
+        if (excludeFiles) {
+            const patterns = excludeFiles.split(',').map(p => p.trim()).filter(p => p.length > 0);
+            patterns.forEach(p => args.unshift('--glob', `!${p}`));
+        }
+
+        // Search each workspace folder from its own root (multi-root workspaces)
+        const outputs = await Promise.all(folders.map(async folder => {
+            try {
+                return { root: folder.uri, output: await this.runRipgrep(folder.uri.fsPath, args, token) };
+            } catch (e) {
+                console.error('[RelationModel] Ripgrep failed', e);
+                return { root: folder.uri, output: '' };
+            }
+        }));
+
+        const results: TextOccurrence[] = [];
+        for (const { root, output } of outputs) {
+            for (const line of output.split('\n')) {
+                if (results.length >= maxResults) {
+                    break;
+                }
+                if (!line.startsWith('{"type":"match"')) {
+                    continue;
+                }
+
+                try {
+                    const data = JSON.parse(line).data;
+                    const filePath = data.path?.text;
+                    const text: string = data.lines?.text ?? '';
+                    if (!filePath) {
+                        continue;
+                    }
+
+                    const lineNumber = data.line_number - 1;
+                    // Submatch offsets are in bytes; good enough for ASCII identifiers
+                    const start = data.submatches?.[0]?.start ?? 0;
+                    const end = data.submatches?.[0]?.end ?? start;
+
+                    results.push({
+                        uri: vscode.Uri.joinPath(root, filePath),
+                        range: new vscode.Range(lineNumber, start, lineNumber, end),
+                        preview: text.trim()
+                    });
+                } catch (e) {
+                    // ignore malformed line
+                }
+            }
+        }
+
+        return results;
+    }
+
+    private runRipgrep(cwd: string, args: string[], token?: vscode.CancellationToken): Promise<string> {
+        return new Promise<string>((resolve, reject) => {
+            const child = cp.execFile(rgPath, args, {
+                cwd,
+                maxBuffer: 1024 * 1024 * 10 // 10MB buffer
+            }, (err, stdout) => {
+                // Code 1 means "no matches", which is not an error for us
+                if (err && err.code !== 1) {
+                    reject(err);
+                } else {
+                    resolve(stdout);
+                }
+            });
+
+            token?.onCancellationRequested(() => {
+                child.kill();
+            });
+        });
+    }
+}
@@ -0,0 +1,98 @@
+export interface CallPathOptions {
+    maxDepth: number;
+    maxNodes: number;
+    maxPaths?: number;
+}
+
+export interface CallPathResult<T> {
+    paths: T[][];
+    // The node budget ran out before the search finished: longer paths may exist
+    truncated: boolean;
+}
+
+/**
+ * Breadth-first search from `from` to `to`, following `getCallees`.
+ * Returns the shortest paths (every path of the minimal length, up to maxPaths).
+ * Each function is expanded at most once, so recursion and cycles terminate.
+ */
+export async function findCallPaths<T>(
+    from: T,
+    to: T,
+    getKey: (node: T) => string,
+    getCallees: (node: T) => Promise<T[]>,
+    options: CallPathOptions
+): Promise<CallPathResult<T>> {
+    const maxPaths = options.maxPaths ?? 50;
+    const fromKey = getKey(from);
+    const toKey = getKey(to);
+
+    const nodes = new Map<string, T>([[fromKey, from]]);
+    const depthOf = new Map<string, number>([[fromKey, 0]]);
+    // Shortest-path DAG: key -> keys of its callers one level closer to `from`
+    const parents = new Map<string, string[]>();
+
+    let frontier = [fromKey];
+    let expanded = 0;
+    let truncated = false;
+    let found = fromKey === toKey;
+
+    for (let depth = 0; depth < options.maxDepth && !found && frontier.length > 0; depth++) {
+        const next: string[] = [];
+
+        for (const key of frontier) {
+            if (expanded >= options.maxNodes) {
+                truncated = true;
+                break;
+            }
+            expanded++;
+
+            for (const callee of await getCallees(nodes.get(key)!)) {
+                const calleeKey = getKey(callee);
+                const calleeDepth = depthOf.get(calleeKey);
+
+                if (calleeDepth === undefined) {
+                    nodes.set(calleeKey, callee);
+                    depthOf.set(calleeKey, depth + 1);
+                    parents.set(calleeKey, [key]);
+                    next.push(calleeKey);
+                } else if (calleeDepth === depth + 1 && !parents.get(calleeKey)!.includes(key)) {
+                    // Another shortest route to the same function
+                    parents.get(calleeKey)!.push(key);
+                }
+
+                if (calleeKey === toKey) {
+                    // Finish this level so every shortest path is collected
+                    found = true;
+                }
+            }
+        }
+
+        if (truncated) {
+            break;
+        }
+        frontier = next;
+    }
+
+    if (!found) {
+        return { paths: [], truncated };
+    }
+
+    // Walk the DAG back from `to`
+    const paths: T[][] = [];
+    const walk = (key: string, suffix: T[]) => {
+        if (paths.length >= maxPaths) {
+            return;
+        }
+        const path = [nodes.get(key)!, ...suffix];
+        if (key === fromKey) {
+            paths.push(path);
+            return;
+        }
+        for (const parent of parents.get(key) || []) {
+            walk(parent, path);
+        }
+    };
+    walk(toKey, []);
+
+    return { paths, truncated };
+}
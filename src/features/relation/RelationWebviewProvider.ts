@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+import { RelationController } from './RelationController';
+import { RelationWebviewMessage } from '../../shared/types';
+
+export class RelationWebviewProvider implements vscode.WebviewViewProvider {
+    public static readonly viewType = 'relation-window-view';
+
+    private _view?: vscode.WebviewView;
+    private controller: RelationController;
+
+    constructor(
+        private readonly _extensionUri: vscode.Uri,
+        controller: RelationController
+    ) {
+        this.controller = controller;
+        this.controller.setProvider(this);
+    }
+
+    public get isVisible(): boolean {
+        return !!this._view && this._view.visible;
+    }
+
+    public resolveWebviewView(
+        webviewView: vscode.WebviewView,
+        context: vscode.WebviewViewResolveContext,
+        _token: vscode.CancellationToken,
+    ) {
+        this._view = webviewView;
+
+        webviewView.webview.options = {
+            enableScripts: true,
+            localResourceRoots: [
+                this._extensionUri
+            ]
+        };
+
+        webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
+
+        // Catch up with the cursor when the view is revealed (auto-sync is skipped while hidden)
+        webviewView.onDidChangeVisibility(() => {
+            if (webviewView.visible) {
+                this.controller.syncToCursor(false);
+            }
+        });
+
+        webviewView.webview.onDidReceiveMessage(async (data: RelationWebviewMessage) => {
+            switch (data.command) {
+                case 'ready':
+                    this.controller.onWebviewReady();
+                    break;
+                case 'resolveHierarchy':
+                    this.controller.resolveHierarchy(data.itemId, data.direction);
+                    break;
+                case 'cancelHierarchy':
+                    this.controller.cancelHierarchy(data.itemId);
+                    break;
+                case 'preview':
+                    this.controller.jumpTo(data.uri, data.range, true);
+                    break;
+                case 'jump':
+                    this.controller.jumpTo(data.uri, data.range, false);
+                    break;
+                case 'loadMore':
+                    this.controller.loadMore();
+                    break;
+            }
+        });
+    }
+
+    public postMessage(message: any) {
+        if (this._view) {
+            this._view.webview.postMessage(message);
+        }
+    }
+
+    private _getHtmlForWebview(webview: vscode.Webview) {
+        // The Relation Window shares the webview bundle with the Symbol Window.
+        // index.tsx picks the root component from the 'data-view' attribute.
+        const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'dist', 'webview.js'));
+        const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'dist', 'style.css'));
+        const codiconsUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'dist', 'codicon.css'));
+
+        // Use a nonce to only allow a specific script to be run.
+        const nonce = getNonce();
+
+        return `<!DOCTYPE html>
+            <html lang="en">
+            <head>
+                <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; font-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <link href="${styleUri}" rel="stylesheet">
+                <link href="${codiconsUri}" rel="stylesheet">
+                <title>Relation Window</title>
+            </head>
+            <body>
+                <div id="root" data-view="relation"></div>
+                <script nonce="${nonce}" src="${scriptUri}"></script>
+            </body>
+            </html>`;
+    }
+}
+
+function getNonce() {
+    let text = '';
+    const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    for (let i = 0; i < 32; i++) {
+        text += possible.charAt(Math.floor(Math.random() * possible.length));
+    }
+    return text;
+}
@@ -0,0 +1,39 @@
+/** One search result as a line of a file, for the result views outside the webview. */
+export interface ResultLine {
+    path: string; // Workspace relative when possible
+    line: number; // 0-based
+    text: string;
+}
+
+const MAX_LINE_TEXT = 250;
+
+/**
+ * Search Editor text (`search-result` language): a `# Query:` header, then every file followed by its
+ * indented `  <line>: <text>` rows. VS Code turns the rows into links (and F12 targets) in that language.
+ * Files keep the order of their best result; rows are sorted by line within a file.
+ */
+export function formatSearchEditorResults(query: string, results: ResultLine[]): string {
+    const files = new Map<string, ResultLine[]>();
+    for (const result of results) {
+        const rows = files.get(result.path) || [];
+        if (!rows.some(r => r.line === result.line)) {
+            rows.push(result);
+        }
+        files.set(result.path, rows);
+    }
+
+    const rowCount = Array.from(files.values()).reduce((sum, rows) => sum + rows.length, 0);
+    const resultCount = rowCount === 1 ? '1 result' : `${rowCount} results`;
+    const fileCount = files.size === 1 ? '1 file' : `${files.size} files`;
+    const lines = [`# Query: ${query}`, '', `${resultCount} - ${fileCount}`];
+
+    for (const [path, rows] of files) {
+        lines.push('', `${path}:`);
+        rows.sort((a, b) => a.line - b.line).forEach(row => {
+            const text = row.text.trim().slice(0, MAX_LINE_TEXT);
+            lines.push(`  ${row.line + 1}: ${text}`);
+        });
+    }
+
+    return lines.join('\n') + '\n';
+}
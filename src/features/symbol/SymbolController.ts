@@ -1,12 +1,26 @@
 import * as vscode from 'vscode';
-import { SymbolModel, parseCStyleType, parseSignature, sortSymbolsByRelevance } from './SymbolModel';
+import * as fs from 'fs';
+import { SymbolModel, parseCStyleType, parseSignature } from './SymbolModel';
+import { matchKeywords, sortSymbolsByRelevance } from '../../shared/fuzzy';
+import { hasFilters, matchesFilters, parseQuery, QueryTarget } from '../../shared/query';
 import { SymbolWebviewProvider } from './SymbolWebviewProvider';
-import { SymbolMode, SymbolItem } from '../../shared/types';
-import { SymbolDatabase } from '../../shared/db/database';
+import { SymbolMode, SymbolItem, NavigationEntry, FavoriteSymbol, SymbolMenuContext, CodePreview } from '../../shared/types';
+import { History, HistorySnapshot } from '../../shared/core/History';
+import { findFavoriteSymbol, isSameFavorite } from './SymbolFavorites';
+import { FrecencyEntry, SymbolFrecency } from './SymbolFrecency';
+import { formatSearchEditorResults, ResultLine } from './SearchResults';
+import { ExportRange, ExportSymbol, SymbolExportFormat, SymbolExportFormatter } from './SymbolExport';
+import { RankBoost, SymbolDatabase } from '../../shared/db/database';
 import { SymbolIndexer } from './indexer/indexer';
 import { LspClient, LspStatus } from '../../shared/core/LspClient';
 import { DatabaseManager } from '../../shared/core/DatabaseManager';
 
+interface NavigationLocation {
+    uri: string;
+    line: number;
+    character: number;
+}
+
 export class SymbolController {
     private model: SymbolModel;
     private provider?: SymbolWebviewProvider;
@@ -23,6 +37,10 @@ export class SymbolController {
     private currentQuery: string = '';
     private currentScopePath: string | undefined;
     private currentIncludePattern: string | undefined;
+    // SymbolKind values of the webview's kind filter chips (empty: all kinds)
+    private currentKinds: number[] = [];
+    // Frecency weights taken when the search started, so that database pages share one ranking
+    private currentBoosts: RankBoost[] = [];
 
     // Caching
     private searchCache: Map<string, SymbolItem[]> = new Map();
@@ -33,6 +51,8 @@ export class SymbolController {
     private allSearchResults: SymbolItem[] = [];
     private loadedCount: number = 0;
     private readonly BATCH_SIZE = 100;
+    // Database pages read for one batch when JS drops rows (a /regex/-only query without SQL support scans)
+    private readonly MAX_DATABASE_PAGES = 10;
     
     private readiness: 'standby' | 'loading' | 'ready' = 'standby';
     private retryCount: number = 0;
@@ -41,6 +61,31 @@ export class SymbolController {
     private readonly PROBE_CHARS = ['', 'e', 'a', 'i', 'o', 'u', 's', 't', 'r', 'n']; // Common letters
     private isDatabaseReady = false;
     private lastProgress: number | null = null;
+    private followCursorTimer: NodeJS.Timeout | undefined;
+    private readonly FOLLOW_CURSOR_DELAY = 150;
+
+    // Symbol-level back/forward trail of jumps (persisted in workspaceState)
+    private navigationHistory = new History<NavigationLocation>(
+        (a, b) => a.uri === b.uri && a.line === b.line,
+        50
+    );
+    private readonly NAVIGATION_HISTORY_KEY = 'symbolWindow.navigationHistory';
+
+    // Starred symbols, shown at the top of every Symbol Window view
+    private favorites: FavoriteSymbol[] = [];
+    private readonly FAVORITES_KEY = 'symbolWindow.favorites';
+
+    // Symbols we jump to, and how recently (boosts search ranking, persisted in workspaceState)
+    private frecency: SymbolFrecency;
+    private readonly FRECENCY_KEY = 'symbolWindow.frecency';
+    private readonly FRECENCY_POINTS = 30; // Fuzzy score of a full boost (a prefix beats a substring match by ~12)
+    private readonly MAX_FRECENCY_BOOSTS = 200; // Hottest symbols passed to the database ranking
+
+    // Code preview pane
+    private readonly PREVIEW_CONTEXT_LINES = 3;
+    private readonly MAX_PREVIEW_LINES = 200;
+
+    private readonly EXPORT_PAGE_SIZE = 5000;
 
     constructor(
         context: vscode.ExtensionContext,
@@ -55,6 +100,14 @@ export class SymbolController {
         this.currentScopePath = this.context.workspaceState.get<string>('symbolWindow.scopePath');
         vscode.commands.executeCommand('setContext', 'symbolWindow.mode', this.currentMode);
 
+        const savedHistory = this.context.workspaceState.get<HistorySnapshot<NavigationLocation>>(this.NAVIGATION_HISTORY_KEY);
+        if (savedHistory) {
+            this.navigationHistory.restore(savedHistory);
+        }
+        this.updateNavigationContext();
+        this.favorites = this.context.workspaceState.get<FavoriteSymbol[]>(this.FAVORITES_KEY, []);
+        this.frecency = new SymbolFrecency(this.context.workspaceState.get<FrecencyEntry[]>(this.FRECENCY_KEY, []));
+
         // Listen to LSP status
         this.lspClient.onStatusChange(status => {
             this.providers.forEach(p => p.postMessage({ command: 'status', status: status }));
@@ -120,11 +173,28 @@ export class SymbolController {
             });
         }, null, context.subscriptions);
         
-        // Listen to selection changes for sync
+        // Listen to selection changes for sync: highlight the symbol under the cursor in current mode
         vscode.window.onDidChangeTextEditorSelection(e => {
-            if (this.currentMode === 'current' && this.provider) {
-                // Sync logic to be implemented
+            if (e.textEditor !== vscode.window.activeTextEditor) {
+                return;
             }
+            if (!vscode.workspace.getConfiguration('symbolWindow').get<boolean>('followCursor', true)) {
+                return;
+            }
+
+            if (this.followCursorTimer) { clearTimeout(this.followCursorTimer); }
+            this.followCursorTimer = setTimeout(() => {
+                const position = e.selections[0].active;
+                this.providers.forEach(p => {
+                    if (this.providerModes.get(p) === 'current') {
+                        p.postMessage({
+                            command: 'highlight',
+                            uri: e.textEditor.document.uri.toString(),
+                            range: new vscode.Range(position, position)
+                        });
+                    }
+                });
+            }, this.FOLLOW_CURSOR_DELAY);
         }, null, context.subscriptions);
     }
 
@@ -261,11 +331,17 @@ export class SymbolController {
     }
 
     // Removed checkReadiness method as it is replaced by startPolling/poll
-    public async handleSearch(query: string, includePattern?: string) {
-        if (this.currentMode === 'project') {
-            // Update include pattern
-            this.currentIncludePattern = includePattern;
 
+    // Filters of the search that actually runs: set in the debounced callback, together with currentQuery,
+    // so loadMore and Deep Search never combine a pending filter with the previous results
+    private applySearchFilters(includePattern: string | undefined, kinds: number[] | undefined) {
+        this.currentIncludePattern = includePattern;
+        this.currentKinds = kinds || [];
+        this.currentBoosts = this.frecency.getTopWeights(this.MAX_FRECENCY_BOOSTS);
+    }
+
+    public async handleSearch(query: string, includePattern?: string, kinds?: number[]) {
+        if (this.currentMode === 'project') {
             // If not ready, don't search, just ensure UI is in loading state
             if (this.lspClient.status !== 'ready') {
                 this.providers.forEach(p => {
@@ -296,6 +372,7 @@ export class SymbolController {
                     if (searchId !== this.currentSearchId) { return; }
                     
                     this.currentQuery = query;
+                    this.applySearchFilters(includePattern, kinds);
                     this.providers.forEach(p => {
                         if (this.providerModes.get(p) === 'project') {
                             p.postMessage({ command: 'searchStart' });
@@ -312,14 +389,11 @@ export class SymbolController {
                     }
 
                     try {
-                        const records = this.dbManager.db!.search(query, this.BATCH_SIZE, 0);
-                        const items = records.map(r => this.mapRecordToItem(r));
-                        
-                        // Sort results by relevance
-                        const sortedItems = sortSymbolsByRelevance(items, query);
+                        // Already ranked by relevance in SQL (across all pages, see loadMore)
+                        this.loadedCount = 0;
+                        const sortedItems = this.searchDatabase(query);
                         
                         this.allSearchResults = sortedItems;
-                        this.loadedCount = sortedItems.length;
                         
                         this.providers.forEach(p => {
                             if (this.providerModes.get(p) === 'project') {
@@ -341,6 +415,7 @@ export class SymbolController {
 
             this.debounceTimer = setTimeout(async () => {
                 if (searchId !== this.currentSearchId) { return; }
+                this.applySearchFilters(includePattern, kinds);
 
                 if (!query) {
                     this.currentQuery = '';
@@ -353,7 +428,9 @@ export class SymbolController {
                 }
                 
                 this.currentQuery = query;
-                const keywords = query.trim().split(/\s+/).filter(k => k.length > 0);
+                // Filter tokens (kind:, in:, file:, -term, /regex/) are applied to the results, only keywords go to the LSP
+                const parsed = parseQuery(query);
+                const keywords = parsed.keywords;
                 
                 this.providers.forEach(p => {
                     if (this.providerModes.get(p) === 'project') {
@@ -433,18 +510,18 @@ export class SymbolController {
 
                     allSymbols = Array.from(symbolMap.values());
 
-                    // Client-side Filtering: Ensure result matches ALL keywords
-                    if (keywords.length > 1) {
-                        const lowerKeywords = keywords.map(k => k.toLowerCase());
-                        allSymbols = allSymbols.filter(s => {
-                            const name = s.name.toLowerCase();
-                            const container = (s.detail || '').toLowerCase(); 
-                            return lowerKeywords.every(k => name.includes(k) || container.includes(k));
-                        });
+                    // Client-side Filtering: Ensure result matches ALL keywords and the filters
+                    const checkKeywords = keywords.length > 1;
+                    if (checkKeywords || hasFilters(parsed) || this.currentKinds.length > 0) {
+                        allSymbols = allSymbols.filter(s =>
+                            (!checkKeywords || matchKeywords(keywords, s.name, s.detail) !== undefined) &&
+                            matchesFilters(parsed, this.toQueryTarget(s)) &&
+                            this.isKindAllowed(s.kind)
+                        );
                     }
 
-                    // Sort results by relevance
-                    allSymbols = sortSymbolsByRelevance(allSymbols, query);
+                    // Sort results by relevance (also records the matched characters for highlighting)
+                    allSymbols = sortSymbolsByRelevance(allSymbols, keywords, s => this.getFrecencyBoost(s));
 
                     this.allSearchResults = allSymbols;
                     this.loadedCount = this.BATCH_SIZE;
@@ -492,20 +569,37 @@ export class SymbolController {
         
         if (provider) {
             // Update specific provider
-            provider.postMessage({ command: 'updateSymbols', symbols });
+            provider.postMessage({ command: 'updateSymbols', symbols, uri: uri.toString() });
         } else {
             // Update all providers (broadcast)
-            this.providers.forEach(p => p.postMessage({ command: 'updateSymbols', symbols }));
+            this.providers.forEach(p => p.postMessage({ command: 'updateSymbols', symbols, uri: uri.toString() }));
         }
     }
 
-    public jumpTo(uriStr: string | undefined, range: any) {
+    public jumpTo(uriStr: string | undefined, range: any, name?: string) {
+        const editor = vscode.window.activeTextEditor;
+        const targetUri = uriStr || editor?.document.uri.toString();
+
+        // Record where we came from and where we went
+        if (editor) {
+            const origin = editor.selection.active;
+            this.recordNavigation({ uri: editor.document.uri.toString(), line: origin.line, character: origin.character });
+        }
+        if (targetUri) {
+            this.recordNavigation({ uri: targetUri, line: range[0].line, character: range[0].character }, name);
+        }
+        this.onNavigationHistoryChanged();
+
+        if (targetUri && name) {
+            this.frecency.record(vscode.Uri.parse(targetUri).fsPath, name);
+            this.context.workspaceState.update(this.FRECENCY_KEY, this.frecency.toJSON());
+        }
+
         if (uriStr) {
             const uri = vscode.Uri.parse(uriStr);
             vscode.window.showTextDocument(uri, { selection: new vscode.Range(range[0].line, range[0].character, range[1].line, range[1].character) });
         } else {
             // Current document
-            const editor = vscode.window.activeTextEditor;
             if (editor) {
                 editor.revealRange(new vscode.Range(range[0].line, range[0].character, range[1].line, range[1].character));
                 editor.selection = new vscode.Selection(range[0].line, range[0].character, range[1].line, range[1].character);
@@ -513,50 +607,215 @@ export class SymbolController {
         }
     }
 
-    public async logSelection(symbolName: string, uriStr: string, line: number) {
-        try 
-        {
-            const range = {
-                    start: { line: line, character: 1 },
-                    end: { line: line, character: 1 }
-            };
-            let rootFilePath = "";
-            if (vscode.env.remoteName === 'wsl') 
-            {
-                let distro = process.env.WSL_DISTRO_NAME;
-                rootFilePath = "vscode-remote://wsl+" + distro + vscode.Uri.parse(uriStr).path;  
-            } 
-            else                
-            {
-                rootFilePath = vscode.Uri.parse(uriStr).path;
-            }
-            const rawPath = rootFilePath;
-            
-            if (!rawPath || rawPath.length === 0) 
-            {
-                //probably this is the root elemet so no action needed
-                return;
+    private recordNavigation(location: NavigationLocation, name?: string) {
+        const label = name || this.formatLocation(location);
+        this.navigationHistory.push({ value: location, label });
+    }
+
+    public async navigateHistory(step: -1 | 1) {
+        const entry = this.navigationHistory.peek(step);
+        if (!entry) {
+            return;
+        }
+
+        if (!(await this.openLocation(entry.value))) {
+            // File deleted or moved: drop the entry silently
+            this.navigationHistory.removeAt(step);
+            this.onNavigationHistoryChanged();
+            return;
+        }
+        this.navigationHistory.move(step);
+        this.onNavigationHistoryChanged();
+    }
+
+    /** Entry picked from the webview history list. */
+    public async navigateHistoryTo(index: number) {
+        const entry = this.navigationHistory.getEntries()[index];
+        if (!entry || !(await this.openLocation(entry.value))) {
+            return;
+        }
+        this.navigationHistory.moveTo(index);
+        this.onNavigationHistoryChanged();
+    }
+
+    private async openLocation(location: NavigationLocation): Promise<boolean> {
+        const position = new vscode.Position(location.line, location.character);
+        try {
+            await vscode.window.showTextDocument(vscode.Uri.parse(location.uri), {
+                selection: new vscode.Range(position, position)
+            });
+            return true;
+        } catch (e) {
+            return false;
+        }
+    }
+
+    private formatLocation(location: NavigationLocation): string {
+        const fileName = vscode.Uri.parse(location.uri).path.split('/').pop();
+        return `${fileName}:${location.line + 1}`;
+    }
+
+    private onNavigationHistoryChanged() {
+        this.context.workspaceState.update(this.NAVIGATION_HISTORY_KEY, this.navigationHistory.snapshot());
+        this.updateNavigationContext();
+        this.providers.forEach(p => this.postHistory(p));
+    }
+
+    private updateNavigationContext() {
+        vscode.commands.executeCommand('setContext', 'symbolWindow.canNavigateBack', this.navigationHistory.canGoBack);
+        vscode.commands.executeCommand('setContext', 'symbolWindow.canNavigateForward', this.navigationHistory.canGoForward);
+    }
+
+    public postHistory(provider: SymbolWebviewProvider) {
+        const entries: NavigationEntry[] = this.navigationHistory.getEntries().map(e => ({
+            label: e.label,
+            detail: this.formatLocation(e.value)
+        }));
+        provider.postMessage({ command: 'updateHistory', entries, index: this.navigationHistory.position });
+    }
+
+    /** Stars the symbol of the context menu, or the symbol under the cursor when run from the Command Palette. */
+    public async addFavorite(menuContext?: SymbolMenuContext) {
+        const favorite = menuContext ? this.favoriteFromMenuContext(menuContext) : await this.favoriteAtCursor();
+        if (!favorite) {
+            vscode.window.showInformationMessage('Symbol Window: No symbol to add to favorites.');
+            return;
+        }
+        if (this.favorites.some(f => isSameFavorite(f, favorite))) {
+            return;
+        }
+        this.favorites.push(favorite);
+        this.onFavoritesChanged();
+    }
+
+    public removeFavorite(index: number) {
+        if (index < 0 || index >= this.favorites.length) {
+            return;
+        }
+        this.favorites.splice(index, 1);
+        this.onFavoritesChanged();
+    }
+
+    /** Re-resolves the favorite (database first, then the document symbols) and jumps to it. */
+    public async openFavorite(index: number) {
+        const favorite = this.favorites[index];
+        if (!favorite) {
+            return;
+        }
+
+        const uri = vscode.Uri.file(favorite.path);
+        const range = await this.resolveFavorite(favorite, uri);
+        if (!range) {
+            vscode.window.showWarningMessage(`Symbol Window: Favorite '${favorite.name}' was not found in ${favorite.path.split(/[\\/]/).pop()}.`);
+            return;
+        }
+        this.jumpTo(uri.toString(), range, favorite.name);
+    }
+
+    private async resolveFavorite(favorite: FavoriteSymbol, uri: vscode.Uri): Promise<any> {
+        const config = vscode.workspace.getConfiguration('shared');
+        if (config.get('enableDatabaseMode') && this.dbManager.db && this.isDatabaseReady) {
+            const records = this.dbManager.db.findSymbolsByName(favorite.path, favorite.name, favorite.kind);
+            const record = records.find(r => (r.container_name || '') === (favorite.containerName || '')) || records[0];
+            if (record) {
+                return [
+                    { line: record.selection_range_start_line, character: record.selection_range_start_char },
+                    { line: record.selection_range_end_line, character: record.selection_range_end_char }
+                ];
             }
-            const lineNumber = line;
+        }
 
-            // Detect if we're in a WSL environment
-            let _fileUri;
-            if (rawPath.startsWith("vscode-remote:"))
-            {
-                _fileUri = rawPath;
+        try {
+            const symbol = findFavoriteSymbol(await this.model.getDocumentSymbols(uri), favorite);
+            return symbol ? [symbol.selectionRange.start, symbol.selectionRange.end] : undefined;
+        } catch (e) {
+            // File deleted or moved
+            return undefined;
+        }
+    }
+
+    private favoriteFromMenuContext(menuContext: SymbolMenuContext): FavoriteSymbol | undefined {
+        const uri = menuContext.symbolUri ? vscode.Uri.parse(menuContext.symbolUri) : vscode.window.activeTextEditor?.document.uri;
+        if (!uri) {
+            return undefined;
+        }
+        return {
+            path: uri.fsPath,
+            name: menuContext.symbolName,
+            containerName: menuContext.containerName || undefined,
+            kind: menuContext.symbolKind
+        };
+    }
+
+    private async favoriteAtCursor(): Promise<FavoriteSymbol | undefined> {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            return undefined;
+        }
+
+        // Innermost document symbol containing the cursor
+        let items = await this.model.getDocumentSymbols(editor.document.uri);
+        let found: SymbolItem | undefined;
+        let containerName: string | undefined;
+        for (;;) {
+            const next = items.find(s => s.range && s.range.contains(editor.selection.active));
+            if (!next) {
+                break;
             }
-            else
-            {
-                // Windows path or UNC path
-                _fileUri = vscode.Uri.file(rawPath);
-            }            
+            containerName = found?.name;
+            found = next;
+            items = next.children || [];
+        }
+
+        return found && { path: editor.document.uri.fsPath, name: found.name, containerName, kind: found.kind };
+    }
+
+    private onFavoritesChanged() {
+        this.context.workspaceState.update(this.FAVORITES_KEY, this.favorites);
+        this.providers.forEach(p => this.postFavorites(p));
+    }
+
+    public postFavorites(provider: SymbolWebviewProvider) {
+        provider.postMessage({ command: 'updateFavorites', favorites: this.favorites });
+    }
+
+    /**
+     * Reads the symbol's source for the webview preview pane. The document is loaded without showing
+     * an editor, so database results of files that are not open can be previewed too.
+     */
+    public async previewSymbol(provider: SymbolWebviewProvider, requestId: number, uriStr: string | undefined, range: any) {
+        const uri = uriStr ? vscode.Uri.parse(uriStr) : vscode.window.activeTextEditor?.document.uri;
+        if (!uri || !range) {
+            provider.postMessage({ command: 'showPreview', requestId });
+            return;
+        }
 
-            await vscode.commands.executeCommand('vscode-context-window.navigateUri', _fileUri.toString(), range);
+        try {
+            const document = await vscode.workspace.openTextDocument(uri);
+            const symbolStartLine = Math.min(range[0].line, document.lineCount - 1);
+            const symbolEndLine = Math.min(Math.max(range[1].line, symbolStartLine), document.lineCount - 1);
+            const firstLine = Math.max(0, symbolStartLine - this.PREVIEW_CONTEXT_LINES);
+            const fullLastLine = Math.min(document.lineCount - 1, symbolEndLine + this.PREVIEW_CONTEXT_LINES);
+            const lastLine = Math.min(fullLastLine, firstLine + this.MAX_PREVIEW_LINES - 1);
+
+            const lines: string[] = [];
+            for (let line = firstLine; line <= lastLine; line++) {
+                lines.push(document.lineAt(line).text);
+            }
 
-        } 
-        catch (error) {
-            // Silently fail - command might not be available
-            //console.debug('[SymbolWindow] Failed to execute vscode-context-window.navigateUri:', error);
+            const preview: CodePreview = {
+                uri: uri.toString(),
+                languageId: document.languageId,
+                firstLine,
+                lines,
+                symbolStartLine,
+                symbolEndLine,
+                truncated: lastLine < fullLastLine
+            };
+            provider.postMessage({ command: 'showPreview', requestId, preview });
+        } catch (e) {
+            console.error('[SymbolWindow] Failed to read preview', e);
+            provider.postMessage({ command: 'showPreview', requestId });
         }
     }
 
@@ -564,11 +823,9 @@ export class SymbolController {
         if (this.currentMode === 'project') {
             const config = vscode.workspace.getConfiguration('shared');
             if (config.get('enableDatabaseMode') && this.dbManager.db && this.isDatabaseReady) {
-                const nextBatch = this.dbManager.db.search(this.currentQuery, this.BATCH_SIZE, this.loadedCount);
-                if (nextBatch.length > 0) {
-                    const items = nextBatch.map(r => this.mapRecordToItem(r));
+                const items = this.searchDatabase(this.currentQuery);
+                if (items.length > 0) {
                     this.allSearchResults.push(...items);
-                    this.loadedCount += items.length;
                     this.providers.forEach(p => {
                         if (this.providerModes.get(p) === 'project') {
                             p.postMessage({ 
@@ -606,7 +863,8 @@ export class SymbolController {
             return;
         }
 
-        const keywords = this.currentQuery.trim().split(/\s+/).filter(k => k.length > 0);
+        const parsed = parseQuery(this.currentQuery);
+        const keywords = parsed.keywords;
         if (keywords.length === 0) {
             return;
         }
@@ -626,7 +884,8 @@ export class SymbolController {
                 keywords, 
                 this.searchCts?.token,
                 this.currentScopePath,
-                this.currentIncludePattern
+                this.currentIncludePattern,
+                parsed
             );
             
             // Check cancellation
@@ -644,7 +903,7 @@ export class SymbolController {
             });
 
             const newItems: SymbolItem[] = [];
-            textSearchResults.forEach(s => {
+            textSearchResults.filter(s => this.isKindAllowed(s.kind)).forEach(s => {
                 const key = `${s.uri}|${s.selectionRange.start.line}:${s.selectionRange.start.character}`;
                 if (!existingKeys.has(key)) {
                     s.isDeepSearch = true;
@@ -699,7 +958,7 @@ export class SymbolController {
         
         // Trigger search if query exists
         if (this.currentQuery) {
-            this.handleSearch(this.currentQuery, this.currentIncludePattern);
+            this.handleSearch(this.currentQuery, this.currentIncludePattern, this.currentKinds);
         }
     }
 
@@ -714,7 +973,7 @@ export class SymbolController {
         
         // Trigger search if query exists
         if (this.currentQuery) {
-            this.handleSearch(this.currentQuery, this.currentIncludePattern);
+            this.handleSearch(this.currentQuery, this.currentIncludePattern, this.currentKinds);
         }
     }
 
@@ -731,6 +990,293 @@ export class SymbolController {
         }
     }
 
+    /**
+     * Next page of database results, starting at loadedCount (which counts rows, not items).
+     * The SQL abbreviation prefilter is looser than the fuzzy matcher (and /regex/ filters may not run in SQL),
+     * so rows they reject are dropped and the following pages are read until something matches.
+     */
+    private searchDatabase(query: string): SymbolItem[] {
+        const parsed = parseQuery(query);
+        const items: SymbolItem[] = [];
+
+        for (let page = 0; page < this.MAX_DATABASE_PAGES && items.length === 0; page++) {
+            const records = this.dbManager.db!.search(parsed, this.BATCH_SIZE, this.loadedCount, this.currentKinds, this.currentBoosts);
+            this.loadedCount += records.length;
+
+            for (const record of records) {
+                const item = this.mapRecordToItem(record);
+                // The raw name keeps the parts moved to the detail (C types, signatures) that SQL matched on
+                const match = matchKeywords(parsed.keywords, item.name, `${record.name} ${record.container_name || ''}`);
+                const target = { name: record.name, kind: record.kind, container: record.container_name, path: record.file_path?.replace(/\\/g, '/') };
+                if (match && matchesFilters(parsed, target)) {
+                    item.matches = match.positions;
+                    items.push(item);
+                }
+            }
+
+            if (records.length < this.BATCH_SIZE) {
+                break;
+            }
+        }
+        return items;
+    }
+
+    private getFrecencyBoost(symbol: SymbolItem): number {
+        if (!symbol.uri) {
+            return 0;
+        }
+        return this.frecency.getWeight(vscode.Uri.parse(symbol.uri).fsPath, symbol.name) * this.FRECENCY_POINTS;
+    }
+
+    public resetFrecency() {
+        this.frecency.clear();
+        this.currentBoosts = [];
+        this.context.workspaceState.update(this.FRECENCY_KEY, undefined);
+        vscode.window.showInformationMessage('Symbol Window: Search ranking history cleared.');
+    }
+
+    /**
+     * Opens the project search results (as loaded in the list) in the references peek, where F4 / Shift+F4
+     * step through them. The peek keeps its own copy, so it survives new queries in the search box.
+     */
+    public async showResultsInReferences() {
+        const locations = this.getResultLocations();
+        if (locations.length === 0) {
+            vscode.window.showInformationMessage('Symbol Window: No search results to show.');
+            return;
+        }
+
+        // The peek opens at a position of an editor: the cursor, or the first result when no editor is open
+        const editor = vscode.window.activeTextEditor
+            || await vscode.window.showTextDocument(locations[0].uri, { selection: locations[0].range });
+        await vscode.commands.executeCommand('editor.action.showReferences', editor.document.uri, editor.selection.active, locations);
+    }
+
+    /** Writes the project search results to an untitled Search Editor style document (one line per result, grouped by file). */
+    public async openResultsInEditor() {
+        const locations = this.getResultLocations();
+        if (locations.length === 0) {
+            vscode.window.showInformationMessage('Symbol Window: No search results to show.');
+            return;
+        }
+
+        // Read from disk rather than openTextDocument, which would open every file in the language server
+        const fileLines = new Map<string, string[]>();
+        const multiRoot = (vscode.workspace.workspaceFolders?.length || 0) > 1;
+        const results: ResultLine[] = [];
+        for (const location of locations) {
+            const key = location.uri.toString();
+            let lines = fileLines.get(key);
+            if (!lines) {
+                try {
+                    const data = await vscode.workspace.fs.readFile(location.uri);
+                    lines = new TextDecoder().decode(data).split(/\r?\n/);
+                } catch (e) {
+                    lines = [];
+                }
+                fileLines.set(key, lines);
+            }
+            const line = location.range.start.line;
+            results.push({
+                path: multiRoot ? location.uri.fsPath : vscode.workspace.asRelativePath(location.uri, false),
+                line,
+                text: lines[line] || ''
+            });
+        }
+
+        const document = await vscode.workspace.openTextDocument({
+            language: 'search-result',
+            content: formatSearchEditorResults(this.currentQuery, results)
+        });
+        await vscode.window.showTextDocument(document);
+    }
+
+    /** Writes the loaded search results, the active document's symbols or the whole database to a JSON, CSV or tags file. */
+    public async exportSymbols() {
+        const sources: (vscode.QuickPickItem & { source: 'results' | 'document' | 'database' })[] = [];
+        if (this.currentMode === 'project' && this.currentQuery && this.allSearchResults.length > 0) {
+            sources.push({ label: 'Search Results', description: `${this.allSearchResults.length} symbols loaded for '${this.currentQuery}'`, source: 'results' });
+        }
+        const editor = vscode.window.activeTextEditor;
+        if (editor) {
+            sources.push({ label: 'Current Document', description: vscode.workspace.asRelativePath(editor.document.uri, false), source: 'document' });
+        }
+        const db = this.dbManager.db;
+        if (db && this.isDatabaseReady) {
+            sources.push({ label: 'Whole Database', description: `${db.getFileCount()} files`, source: 'database' });
+        }
+        if (sources.length === 0) {
+            vscode.window.showInformationMessage('Symbol Window: Nothing to export. Search for symbols or open a file first.');
+            return;
+        }
+
+        const source = await vscode.window.showQuickPick(sources, { placeHolder: 'Export symbols from...' });
+        if (!source) {
+            return;
+        }
+
+        const formats: (vscode.QuickPickItem & { format: SymbolExportFormat; fileName: string })[] = [
+            { label: 'JSON', description: 'one object per symbol', format: 'json', fileName: 'symbols.json' },
+            { label: 'CSV', description: 'one row per symbol', format: 'csv', fileName: 'symbols.csv' },
+            { label: 'Tags', description: 'name, file and line (ctags style)', format: 'tags', fileName: 'tags' }
+        ];
+        const format = await vscode.window.showQuickPick(formats, { placeHolder: `Export ${source.label.toLowerCase()} as...` });
+        if (!format) {
+            return;
+        }
+
+        const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: folder ? vscode.Uri.joinPath(folder, format.fileName) : undefined,
+            saveLabel: 'Export'
+        });
+        if (!target) {
+            return;
+        }
+        if (target.scheme !== 'file') {
+            vscode.window.showErrorMessage('Symbol Window: Symbols can only be exported to a local file.');
+            return;
+        }
+
+        try {
+            const count = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Symbol Window: Exporting ${source.label.toLowerCase()}`,
+                    cancellable: true
+                },
+                (progress, token) => this.writeExport(source.source, format.format, target.fsPath, progress, token)
+            );
+            if (count === undefined) {
+                vscode.window.showInformationMessage('Symbol Window: Export cancelled.');
+                return;
+            }
+            vscode.window.showInformationMessage(`Symbol Window: Exported ${count} symbols to ${vscode.workspace.asRelativePath(target, false)}.`);
+        } catch (e) {
+            console.error('[SymbolWindow] Export failed', e);
+            vscode.window.showErrorMessage(`Symbol Window: Export failed. ${e instanceof Error ? e.message : e}`);
+        }
+    }
+
+    /**
+     * Writes the export page by page, so a large index is never held in memory as a whole. Every write
+     * is awaited, which also lets the extension host run between pages. Returns undefined when cancelled
+     * (the partial file is removed).
+     */
+    private async writeExport(
+        source: 'results' | 'document' | 'database',
+        format: SymbolExportFormat,
+        filePath: string,
+        progress: vscode.Progress<{ message?: string }>,
+        token: vscode.CancellationToken
+    ): Promise<number | undefined> {
+        const formatter = new SymbolExportFormatter(format);
+        const file = await fs.promises.open(filePath, 'w');
+        let count = 0;
+        let completed = false;
+
+        try {
+            await file.write(formatter.begin());
+            for await (const page of this.readExportPages(source)) {
+                if (token.isCancellationRequested) {
+                    return undefined;
+                }
+                await file.write(formatter.format(page));
+                count += page.length;
+                progress.report({ message: `${count} symbols` });
+            }
+            await file.write(formatter.end());
+            completed = !token.isCancellationRequested;
+        } finally {
+            await file.close();
+            if (!completed) {
+                await fs.promises.rm(filePath, { force: true });
+            }
+        }
+
+        return completed ? count : undefined;
+    }
+
+    private async *readExportPages(source: 'results' | 'document' | 'database'): AsyncGenerator<ExportSymbol[]> {
+        if (source === 'results') {
+            yield this.allSearchResults
+                .filter(s => s.uri && s.range && s.selectionRange)
+                .map(s => this.toExportSymbol(s.name, s.kind, s.containerName || '', vscode.Uri.parse(s.uri!), s.range, s.selectionRange));
+        } else if (source === 'document') {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                return;
+            }
+            const uri = editor.document.uri;
+            const symbols: ExportSymbol[] = [];
+            const visit = (items: SymbolItem[], parentName: string) => {
+                items.forEach(s => {
+                    symbols.push(this.toExportSymbol(s.name, s.kind, s.containerName || parentName, uri, s.range, s.selectionRange));
+                    visit(s.children || [], s.name);
+                });
+            };
+            visit(await this.model.getDocumentSymbols(uri), '');
+            yield symbols;
+        } else {
+            // Keyset paging: an OFFSET would rescan every skipped row on each page
+            let lastId = 0;
+            for (;;) {
+                const db = this.dbManager.db;
+                if (!db) {
+                    return;
+                }
+                const records = db.getSymbolsAfter(lastId, this.EXPORT_PAGE_SIZE);
+                if (records.length === 0) {
+                    return;
+                }
+                yield records.map(r => this.toExportSymbol(
+                    r.name, r.kind, r.container_name || '', vscode.Uri.file(r.file_path!),
+                    new vscode.Range(r.range_start_line, r.range_start_char, r.range_end_line, r.range_end_char),
+                    new vscode.Range(r.selection_range_start_line, r.selection_range_start_char, r.selection_range_end_line, r.selection_range_end_char)
+                ));
+                lastId = records[records.length - 1].id;
+            }
+        }
+    }
+
+    private toExportSymbol(name: string, kind: number, container: string, uri: vscode.Uri, range: vscode.Range, selectionRange: vscode.Range): ExportSymbol {
+        const toExportRange = (r: vscode.Range): ExportRange => ({
+            start: { line: r.start.line, character: r.start.character },
+            end: { line: r.end.line, character: r.end.character }
+        });
+        return {
+            name,
+            kindName: vscode.SymbolKind[kind],
+            container,
+            path: vscode.workspace.asRelativePath(uri, false),
+            line: selectionRange.start.line + 1,
+            range: toExportRange(range),
+            selectionRange: toExportRange(selectionRange)
+        };
+    }
+
+    private getResultLocations(): vscode.Location[] {
+        if (!this.currentQuery) {
+            return [];
+        }
+        return this.allSearchResults
+            .filter(s => s.uri && s.selectionRange)
+            .map(s => new vscode.Location(vscode.Uri.parse(s.uri!), s.selectionRange));
+    }
+
+    private isKindAllowed(kind: number): boolean {
+        return this.currentKinds.length === 0 || this.currentKinds.includes(kind);
+    }
+
+    private toQueryTarget(symbol: SymbolItem): QueryTarget {
+        return {
+            name: symbol.name,
+            kind: symbol.kind,
+            container: symbol.containerName,
+            path: symbol.uri ? vscode.Uri.parse(symbol.uri).path : undefined
+        };
+    }
+
     private mapRecordToItem(record: any): SymbolItem {
         const config = vscode.workspace.getConfiguration('symbolWindow');
         const cleanCStyle = config.get<boolean>('cleanCStyleTypes', true);
@@ -770,6 +1316,10 @@ export class SymbolController {
         if (finalDetail) {
             parts.push(finalDetail);
         }
+        // No signature from the LSP: show the declaration line read by the indexer
+        if (parts.length === 0 && record.declaration) {
+            parts.push(record.declaration);
+        }
         
         // In Project Mode, it's helpful to see the container name (e.g. Class)
         if (record.container_name && record.container_name !== finalDetail) {
@@ -792,7 +1342,9 @@ export class SymbolController {
             ),
             children: [],
             uri: vscode.Uri.file(record.file_path).toString(),
-            containerName: record.container_name
+            containerName: record.container_name,
+            declaration: record.declaration || undefined,
+            documentation: record.doc_comment || undefined
         };
     }
 
@@ -0,0 +1,100 @@
+export type SymbolExportFormat = 'json' | 'csv' | 'tags';
+
+// 0-based, as in vscode.Position
+export interface ExportPosition {
+    line: number;
+    character: number;
+}
+
+export interface ExportRange {
+    start: ExportPosition;
+    end: ExportPosition;
+}
+
+export interface ExportSymbol {
+    name: string;
+    kindName: string;
+    container: string;
+    path: string; // Workspace relative when possible
+    line: number; // 1-based line of the name, as in tags files
+    range: ExportRange;
+    selectionRange: ExportRange;
+}
+
+const CSV_COLUMNS = [
+    'name', 'kind', 'container', 'file', 'line',
+    'startLine', 'startCharacter', 'endLine', 'endCharacter',
+    'selectionStartLine', 'selectionStartCharacter', 'selectionEndLine', 'selectionEndCharacter'
+];
+
+/**
+ * Formats an export a chunk at a time (`begin`, then `format` for every page of symbols, then `end`),
+ * so a whole database can be written while it is read instead of being built as one string.
+ */
+export class SymbolExportFormatter {
+    private count = 0;
+
+    constructor(private readonly exportFormat: SymbolExportFormat) {}
+
+    public begin(): string {
+        switch (this.exportFormat) {
+            case 'json':
+                return '[';
+            case 'csv':
+                return CSV_COLUMNS.join(',') + '\r\n';
+            case 'tags':
+                // Pages arrive in database order; tag readers fall back to a linear search for unsorted files
+                return '!_TAG_FILE_SORTED\t0\t/0=unsorted, 1=sorted, 2=foldcase/\n';
+        }
+    }
+
+    public format(symbols: ExportSymbol[]): string {
+        const text = symbols.map((s, i) => {
+            switch (this.exportFormat) {
+                case 'json':
+                    // One symbol per line: still valid JSON, but a database dump stays readable and diffable
+                    return `${this.count + i > 0 ? ',' : ''}\n  ${JSON.stringify(s)}`;
+                case 'csv':
+                    return toCsvRow(s);
+                case 'tags':
+                    return toTagLine(s);
+            }
+        }).join('');
+        this.count += symbols.length;
+        return text;
+    }
+
+    public end(): string {
+        return this.exportFormat === 'json' ? '\n]\n' : '';
+    }
+}
+
+export function formatSymbols(symbols: ExportSymbol[], format: SymbolExportFormat): string {
+    const formatter = new SymbolExportFormatter(format);
+    return formatter.begin() + formatter.format(symbols) + formatter.end();
+}
+
+function toCsvRow(s: ExportSymbol): string {
+    // RFC 4180: quote fields with separators, quotes or line breaks, and double the quotes
+    const field = (value: string | number) => {
+        const text = String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    return [
+        s.name, s.kindName, s.container, s.path, s.line,
+        s.range.start.line, s.range.start.character, s.range.end.line, s.range.end.character,
+        s.selectionRange.start.line, s.selectionRange.start.character, s.selectionRange.end.line, s.selectionRange.end.character
+    ].map(field).join(',') + '\r\n';
+}
+
+/** `name<TAB>file<TAB>line;"<TAB>kind:...<TAB>container:...` (ctags extended format, line number address). */
+function toTagLine(s: ExportSymbol): string {
+    const clean = (text: string) => text.replace(/[\t\r\n]/g, ' ');
+
+    const fields = [clean(s.name), clean(s.path), `${s.line};"`, `kind:${s.kindName.toLowerCase()}`];
+    if (s.container) {
+        fields.push(`container:${clean(s.container)}`);
+    }
+    return fields.join('\t') + '\n';
+}
@@ -0,0 +1,31 @@
+import type { FavoriteSymbol, SymbolItem } from '../../shared/types';
+
+export function isSameFavorite(a: FavoriteSymbol, b: FavoriteSymbol): boolean {
+    return a.path === b.path && a.name === b.name && a.kind === b.kind && (a.containerName || '') === (b.containerName || '');
+}
+
+/**
+ * Finds a favorite in a document symbol tree by name and kind, preferring the one in the same container
+ * (overloads, or the same member name in two classes). Falls back to any match when the container was renamed.
+ */
+export function findFavoriteSymbol(symbols: SymbolItem[], favorite: FavoriteSymbol): SymbolItem | undefined {
+    let fallback: SymbolItem | undefined;
+
+    const visit = (items: SymbolItem[], parentName: string): SymbolItem | undefined => {
+        for (const item of items) {
+            if (item.name === favorite.name && item.kind === favorite.kind) {
+                if ((item.containerName || parentName) === (favorite.containerName || '')) {
+                    return item;
+                }
+                fallback = fallback || item;
+            }
+            const found = visit(item.children || [], item.name);
+            if (found) {
+                return found;
+            }
+        }
+        return undefined;
+    };
+
+    return visit(symbols, '') || fallback;
+}
@@ -0,0 +1,76 @@
+import { getBaseSymbolName } from '../../shared/fuzzy';
+
+/** Decayed jump count of a symbol: each jump adds 1, and the total halves every HALF_LIFE_MS. */
+export interface FrecencyEntry {
+    path: string; // fsPath, as in the database
+    name: string; // Base name (getBaseSymbolName): the same whether the type / signature was cleaned for display or not
+    score: number; // At lastUsed
+    lastUsed: number;
+}
+
+const HALF_LIFE_MS = 14 * 24 * 60 * 60 * 1000;
+const MAX_ENTRIES = 500;
+
+/**
+ * Which symbols we actually jump to, and how recently ("frecency"). Search ranking adds
+ * getWeight() so that often used symbols rise above same-named ones elsewhere in the workspace.
+ */
+export class SymbolFrecency {
+    private entries = new Map<string, FrecencyEntry>();
+
+    constructor(saved: FrecencyEntry[] = []) {
+        saved.forEach(e => this.entries.set(this.key(e.path, e.name), e));
+    }
+
+    public record(path: string, displayName: string, now = Date.now()) {
+        const name = getBaseSymbolName(displayName);
+        const key = this.key(path, name);
+        const entry = this.entries.get(key);
+        const score = entry ? this.decay(entry, now) + 1 : 1;
+        this.entries.set(key, { path, name, score, lastUsed: now });
+
+        if (this.entries.size > MAX_ENTRIES) {
+            const coldest = this.getHottest(now).pop()!;
+            this.entries.delete(this.key(coldest.path, coldest.name));
+        }
+    }
+
+    /** 0 for unknown symbols, up to 1 for about 15 recent jumps (logarithmic, so one jump already counts). */
+    public getWeight(path: string, name: string, now = Date.now()): number {
+        const entry = this.entries.get(this.key(path, name));
+        return entry ? this.toWeight(this.decay(entry, now)) : 0;
+    }
+
+    /** Weights of the hottest symbols, for ranking in SQL (see SymbolDatabase.search). */
+    public getTopWeights(limit: number, now = Date.now()): { path: string; name: string; weight: number }[] {
+        return this.getHottest(now).slice(0, limit).map(e => ({ path: e.path, name: e.name, weight: this.toWeight(e.score) }));
+    }
+
+    public clear() {
+        this.entries.clear();
+    }
+
+    /** Stored form (workspaceState). */
+    public toJSON(): FrecencyEntry[] {
+        return Array.from(this.entries.values());
+    }
+
+    /** Entries with their current score, hottest first. */
+    private getHottest(now: number): FrecencyEntry[] {
+        return Array.from(this.entries.values())
+            .map(e => ({ ...e, score: this.decay(e, now) }))
+            .sort((a, b) => b.score - a.score);
+    }
+
+    private toWeight(score: number): number {
+        return Math.min(1, Math.log2(1 + score) / 4);
+    }
+
+    private decay(entry: FrecencyEntry, now: number): number {
+        return entry.score * Math.pow(0.5, Math.max(0, now - entry.lastUsed) / HALF_LIFE_MS);
+    }
+
+    private key(path: string, name: string): string {
+        return `${path}\n${getBaseSymbolName(name)}`;
+    }
+}
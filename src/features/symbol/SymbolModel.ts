@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
 import { SymbolItem } from '../../shared/types';
+import { matchKeywords } from '../../shared/fuzzy';
+import { matchesFilters, SymbolQuery } from '../../shared/query';
 import * as cp from 'child_process';
 import { rgPath } from '@vscode/ripgrep';
 
@@ -45,7 +47,8 @@ export class SymbolModel {
         keywords: string[], 
         token?: vscode.CancellationToken,
         scopePath?: string,
-        includePattern?: string
+        includePattern?: string,
+        filters?: SymbolQuery
     ): Promise<SymbolItem[]> {
         // Strategy: Use ripgrep with regex permutations to find files containing ALL keywords.
         // Since rg doesn't support lookahead, we use alternation of permutations:
@@ -71,8 +74,11 @@ export class SymbolModel {
             // Join with .* and then join permutations with |
             // Escape special regex characters in keywords
             const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            // Keywords are fuzzy (e.g. "gsbr" for getSymbolsByRange): allow identifier characters between
+            // their letters, filterSymbols applies the exact matcher to the document symbols afterwards
+            const fuzzyRegex = (k: string) => Array.from(k).map(escapeRegex).join('\\w*');
             
-            const patterns = permutations.map(p => p.map(escapeRegex).join('.*'));
+            const patterns = permutations.map(p => p.map(fuzzyRegex).join('.*'));
             const regexPattern = patterns.join('|');
 
             // rg arguments:
@@ -158,7 +164,7 @@ export class SymbolModel {
 
             try {
                 const symbols = await this.getDocumentSymbols(uri);
-                const filtered = this.filterSymbols(symbols, keywords);
+                const filtered = this.filterSymbols(symbols, keywords, filters);
                 return filtered;
             } catch (e) {
                 console.error(`[SymbolModel] Error getting symbols for ${uriStr}`, e);
@@ -195,23 +201,22 @@ export class SymbolModel {
         return result;
     }
 
-    private filterSymbols(symbols: SymbolItem[], keywords: string[]): SymbolItem[] {
-        const lowerKeywords = keywords.map(k => k.toLowerCase());
+    private filterSymbols(symbols: SymbolItem[], keywords: string[], filters?: SymbolQuery): SymbolItem[] {
         const matches: SymbolItem[] = [];
 
-        const traverse = (items: SymbolItem[]) => {
+        // Document symbols have no container name: the parent symbol stands in for it (in: filter)
+        const traverse = (items: SymbolItem[], parentName?: string) => {
             for (const item of items) {
-                const name = item.name.toLowerCase();
-                const detail = (item.detail || '').toLowerCase();
+                const match = matchKeywords(keywords, item.name, item.detail);
+                const path = item.uri ? vscode.Uri.parse(item.uri).path : undefined;
                 
-                const isMatch = lowerKeywords.every(k => name.includes(k) || detail.includes(k));
-                
-                if (isMatch) {
+                if (match && (!filters || matchesFilters(filters, { name: item.name, kind: item.kind, container: parentName, path }))) {
+                    item.matches = match.positions;
                     matches.push(item);
                 }
                 
                 if (item.children && item.children.length > 0) {
-                    traverse(item.children);
+                    traverse(item.children, item.name);
                 }
             }
         };
@@ -377,46 +382,3 @@ export function parseSignature(name: string): { name: string, signature: string
     }
     return { name, signature: '' };
 }
-
-export function sortSymbolsByRelevance(symbols: SymbolItem[], query: string): SymbolItem[] {
-    const lowerQuery = query.toLowerCase();
-    const keywords = lowerQuery.split(/\s+/).filter(k => k.length > 0);
-    
-    // If no query, sort alphabetically only
-    if (keywords.length === 0) {
-        return symbols.sort((a, b) => a.name.localeCompare(b.name));
-    }
-    
-    // Calculate relevance score for each symbol
-    const scoredSymbols = symbols.map(symbol => {
-        const lowerName = symbol.name.toLowerCase();
-        let score = 0;
-        
-        // Check how close the first letters match each keyword
-        for (const keyword of keywords) {
-            const index = lowerName.indexOf(keyword);
-            if (index !== -1) {
-                // Lower index = better match (closer to start)
-                // Prefix match (index === 0) gets highest score
-                if (index === 0) {
-                    score += 1000; // Prefix match bonus
-                } else {
-                    // The closer to the start, the higher the score
-                    score += Math.max(0, 100 - index);
-                }
-            }
-        }
-        
-        return { symbol, score };
-    });
-    
-    // Sort by score (descending), then alphabetically by name
-    return scoredSymbols
-        .sort((a, b) => {
-            if (b.score !== a.score) {
-                return b.score - a.score;
-            }
-            return a.symbol.name.localeCompare(b.symbol.name);
-        })
-        .map(item => item.symbol);
-}
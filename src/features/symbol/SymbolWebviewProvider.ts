@@ -69,6 +69,8 @@ export class SymbolWebviewProvider implements vscode.WebviewViewProvider {
                     if (!shouldSkipRefresh) {
                         this.controller.refresh(this, data.hasSymbols);
                     }
+                    this.controller.postHistory(this);
+                    this.controller.postFavorites(this);
                     // Execute pending focus if queued
                     if (this.pendingFocusSearch) {
                         this.pendingFocusSearch = false;
@@ -78,10 +80,10 @@ export class SymbolWebviewProvider implements vscode.WebviewViewProvider {
                     }
                     break;
                 case 'search':
-                    this.controller.handleSearch(data.query, data.includePattern);
+                    this.controller.handleSearch(data.query, data.includePattern, data.kinds);
                     break;
                 case 'jump':
-                    this.controller.jumpTo(data.uri, data.range);
+                    this.controller.jumpTo(data.uri, data.range, data.name);
                     break;
                 case 'loadMore':
                     this.controller.loadMore();
@@ -99,9 +101,17 @@ export class SymbolWebviewProvider implements vscode.WebviewViewProvider {
                 case 'cancel':
                     this.controller.cancelSearch();
                     break;
-                case 'logSelection':
-                    console.log('[SymbolWebviewProvider] Received logSelection message', data);
-                    this.controller.logSelection(data.symbolName, data.uri, data.line);
+                case 'navigateHistory':
+                    this.controller.navigateHistoryTo(data.index);
+                    break;
+                case 'openFavorite':
+                    this.controller.openFavorite(data.index);
+                    break;
+                case 'removeFavorite':
+                    this.controller.removeFavorite(data.index);
+                    break;
+                case 'preview':
+                    this.controller.previewSymbol(this, data.requestId, data.uri, data.range);
                     break;
             }
         });
@@ -0,0 +1,64 @@
+const MAX_DECLARATION_LENGTH = 200;
+const MAX_DOC_COMMENT_LINES = 30;
+
+/** The symbol's declaration line (where its name is), trimmed, e.g. `static int eth_init(struct net_device *dev)`. */
+export function getDeclarationLine(lines: string[], line: number): string | undefined {
+    const text = lines[line]?.trim();
+    if (!text) {
+        return undefined;
+    }
+    return text.length > MAX_DECLARATION_LENGTH ? `${text.slice(0, MAX_DECLARATION_LENGTH)}…` : text;
+}
+
+/**
+ * Comment right above the declaration (no blank line in between): `/** ... *\/` blocks, `//` or `///` lines,
+ * and `#` lines (Python, shell; C preprocessor directives are not comments). Returned without comment markers.
+ */
+export function getDocComment(lines: string[], declarationLine: number): string | undefined {
+    const collected: string[] = [];
+    let i = declarationLine - 1;
+
+    while (i >= 0 && collected.length < MAX_DOC_COMMENT_LINES) {
+        const text = lines[i].trim();
+
+        if (text.endsWith('*/')) {
+            // Walk up to the start of the block. Both ends must hold the comment alone:
+            // `int x; /* trailing */` above the declaration is code, not its documentation.
+            let start = i;
+            while (start >= 0 && !lines[start].includes('/*')) {
+                start--;
+            }
+            if (start < 0 || !lines[start].trim().startsWith('/*')) {
+                break;
+            }
+            collected.unshift(...lines.slice(start, i + 1).map(l => l.trim()));
+            i = start - 1;
+            continue;
+        }
+
+        if (/^(\/\/|#(\s|$))/.test(text)) {
+            collected.unshift(text);
+            i--;
+            continue;
+        }
+        break;
+    }
+
+    const cleaned = collected
+        .slice(-MAX_DOC_COMMENT_LINES)
+        .map(l => l
+            .replace(/^\/\*+!?/, '')
+            .replace(/\*+\/$/, '')
+            .replace(/^\*+/, '')
+            .replace(/^\/\/[/!]?/, '')
+            .replace(/^#/, '')
+            .trim());
+
+    while (cleaned.length > 0 && cleaned[0] === '') {
+        cleaned.shift();
+    }
+    while (cleaned.length > 0 && cleaned[cleaned.length - 1] === '') {
+        cleaned.pop();
+    }
+    return cleaned.length > 0 ? cleaned.join('\n') : undefined;
+}
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
-import { SymbolDatabase, SymbolRecord } from '../../../shared/db/database';
+import { SymbolDatabase, SymbolRecord, CallInput } from '../../../shared/db/database';
+import { getDeclarationLine, getDocComment } from './declarations';
 import * as cp from 'child_process';
 import { rgPath } from '@vscode/ripgrep';
 import * as path from 'path';
@@ -253,17 +254,82 @@ export class SymbolIndexer {
             // and avoid re-indexing it on every sync.
             const flatSymbols = (symbols && symbols.length > 0) ? this.flattenSymbols(symbols) : [];
 
+            // Declaration lines and doc comments, from the document the symbol provider just loaded
+            if (flatSymbols.length > 0) {
+                const document = await vscode.workspace.openTextDocument(uri);
+                const lines = document.getText().split(/\r?\n/);
+                for (const sym of flatSymbols) {
+                    sym.declaration = getDeclarationLine(lines, sym.selection_range_start_line);
+                    sym.doc_comment = getDocComment(lines, sym.range_start_line);
+                }
+            }
+
+            // 2. Get Calls (optional, one call hierarchy request per function)
+            const sharedConfig = vscode.workspace.getConfiguration('shared');
+            const calls = sharedConfig.get<boolean>('indexCallHierarchy', false)
+                ? await this.collectCalls(uri, flatSymbols)
+                : [];
+
             // 3. Insert into DB
             const mtime = stat.mtime;
 
             // Use transaction for atomic update
-            this.db.insertFileAndSymbols(uri.fsPath, mtime, flatSymbols);
+            this.db.insertFileAndSymbols(uri.fsPath, mtime, flatSymbols, calls);
 
         } catch (error) {
             console.error(`[Indexer] Failed to index ${uri.fsPath}:`, error);
         }
     }
 
+    private async collectCalls(uri: vscode.Uri, symbols: Omit<SymbolRecord, 'id' | 'file_id'>[]): Promise<CallInput[]> {
+        const callableKinds = [vscode.SymbolKind.Function, vscode.SymbolKind.Method, vscode.SymbolKind.Constructor];
+        const calls: CallInput[] = [];
+
+        for (let i = 0; i < symbols.length; i++) {
+            const sym = symbols[i];
+            if (!callableKinds.includes(sym.kind)) {
+                continue;
+            }
+
+            try {
+                const items = await vscode.commands.executeCommand<vscode.CallHierarchyItem[]>(
+                    'vscode.prepareCallHierarchy',
+                    uri,
+                    new vscode.Position(sym.selection_range_start_line, sym.selection_range_start_char)
+                );
+                if (!items || items.length === 0) {
+                    continue;
+                }
+
+                const outgoing = await vscode.commands.executeCommand<vscode.CallHierarchyOutgoingCall[]>(
+                    'vscode.provideOutgoingCalls',
+                    items[0]
+                );
+                for (const call of outgoing || []) {
+                    // fromRanges are relative to the caller, i.e. this file
+                    for (const range of call.fromRanges) {
+                        calls.push({
+                            caller_index: i,
+                            callee_name: call.to.name,
+                            callee_path: call.to.uri.fsPath,
+                            callee_line: call.to.selectionRange.start.line,
+                            callee_char: call.to.selectionRange.start.character,
+                            call_start_line: range.start.line,
+                            call_start_char: range.start.character,
+                            call_end_line: range.end.line,
+                            call_end_char: range.end.character
+                        });
+                    }
+                }
+            } catch (error) {
+                // Keep the symbols and the calls of the other functions, only this one's calls are missing
+                console.error(`[Indexer] Failed to collect calls of ${sym.name} in ${uri.fsPath}:`, error);
+                continue;
+            }
+        }
+        return calls;
+    }
+
     private flattenSymbols(symbols: vscode.DocumentSymbol[], parentName: string = ''): Omit<SymbolRecord, 'id' | 'file_id'>[] {
         let result: Omit<SymbolRecord, 'id' | 'file_id'>[] = [];
         
@@ -0,0 +1,107 @@
+export interface HistoryEntry<T> {
+    value: T;
+    label: string;
+}
+
+/** Plain-data copy of a history (for workspaceState), see snapshot / restore. */
+export interface HistorySnapshot<T> {
+    entries: HistoryEntry<T>[];
+    index: number;
+}
+
+/**
+ * Back/forward stack of places (Relation Window roots, Symbol Window jump locations), not view states.
+ * Pushing after going back drops the forward entries, like a browser.
+ */
+export class History<T> {
+    private entries: HistoryEntry<T>[] = [];
+    private index: number = -1;
+
+    constructor(
+        private isSame: (a: T, b: T) => boolean,
+        private readonly capacity: number = 20
+    ) {}
+
+    public get canGoBack(): boolean {
+        return this.index > 0;
+    }
+
+    public get canGoForward(): boolean {
+        return this.index < this.entries.length - 1;
+    }
+
+    public get current(): HistoryEntry<T> | undefined {
+        return this.entries[this.index];
+    }
+
+    /** Index of the current entry in getEntries() (-1 when empty). */
+    public get position(): number {
+        return this.index;
+    }
+
+    public getEntries(): readonly HistoryEntry<T>[] {
+        return this.entries;
+    }
+
+    public push(entry: HistoryEntry<T>) {
+        // Duplicate check: same value as the current entry
+        const current = this.current;
+        if (current && this.isSame(current.value, entry.value)) {
+            return;
+        }
+
+        this.entries = this.entries.slice(0, this.index + 1);
+        this.entries.push(entry);
+        if (this.entries.length > this.capacity) {
+            this.entries.shift();
+        }
+        this.index = this.entries.length - 1;
+    }
+
+    /** Returns the entry one step away in the given direction without moving. */
+    public peek(step: -1 | 1): HistoryEntry<T> | undefined {
+        return this.entries[this.index + step];
+    }
+
+    /** Moves one step in the given direction. Call after the peeked entry was validated. */
+    public move(step: -1 | 1): HistoryEntry<T> | undefined {
+        const target = this.index + step;
+        if (target < 0 || target >= this.entries.length) {
+            return undefined;
+        }
+        this.index = target;
+        return this.entries[target];
+    }
+
+    /** Silently drops the entry one step away (e.g. its file was deleted). The current entry stays. */
+    public removeAt(step: -1 | 1) {
+        const target = this.index + step;
+        if (target < 0 || target >= this.entries.length) {
+            return;
+        }
+        this.entries.splice(target, 1);
+        if (target < this.index) {
+            this.index--;
+        }
+    }
+
+    /** Jumps to any entry (e.g. picked from a list) without changing the stack. */
+    public moveTo(index: number): HistoryEntry<T> | undefined {
+        if (index < 0 || index >= this.entries.length) {
+            return undefined;
+        }
+        this.index = index;
+        return this.entries[index];
+    }
+
+    public snapshot(): HistorySnapshot<T> {
+        return { entries: [...this.entries], index: this.index };
+    }
+
+    /** Replaces the stack with a saved snapshot, trimmed to the capacity. */
+    public restore(snapshot: HistorySnapshot<T>) {
+        const overflow = Math.max(0, snapshot.entries.length - this.capacity);
+        this.entries = snapshot.entries.slice(overflow);
+        this.index = Math.min(Math.max(snapshot.index - overflow, this.entries.length > 0 ? 0 : -1), this.entries.length - 1);
+    }
+}
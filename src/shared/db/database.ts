@@ -1,6 +1,13 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { SymbolKind } from 'vscode';
+import { getPatternInitials, getWordInitials } from '../fuzzy';
+import { hasFilters, parseQuery, SymbolQuery } from '../query';
+
+/** `%text%` LIKE pattern matching the text literally (`_` and `%` are wildcards otherwise). Use with `ESCAPE '\'`. */
+function toContainsPattern(text: string): string {
+    return `%${text.replace(/[\\%_]/g, '\\$&')}%`;
+}
 
 let DatabaseSync: any;
 try {
@@ -32,19 +39,64 @@ export interface SymbolRecord {
     selection_range_end_line: number;
     selection_range_end_char: number;
     container_name: string;
+    // Read from the file by the indexer, so results have a signature and documentation without the LSP
+    declaration?: string | null;
+    doc_comment?: string | null;
     // Joined fields
     file_path?: string;
+    score?: number;
+}
+
+/**
+ * Outgoing call recorded while indexing a file.
+ * The caller is given by its index in the file's symbol list; the callee by location,
+ * because its file may not be indexed yet (callee_id is resolved once it is).
+ */
+export interface CallInput {
+    caller_index: number;
+    callee_name: string;
+    callee_path: string;
+    callee_line: number;
+    callee_char: number;
+    call_start_line: number;
+    call_start_char: number;
+    call_end_line: number;
+    call_end_char: number;
+}
+
+/** A caller or callee symbol joined with the call-site range (always in the caller's file). */
+export interface CallRecord extends SymbolRecord {
+    call_start_line: number;
+    call_start_char: number;
+    call_end_line: number;
+    call_end_char: number;
+}
+
+/** Extra relevance of a symbol, 0..1 (e.g. how often we jump to it). */
+export interface RankBoost {
+    path: string;
+    name: string; // Base name (getBaseSymbolName), matched against the indexed name without its type / signature
+    weight: number;
 }
 
+// Relevance points of a full boost: reorders symbols within a tier (see buildRelevanceScore) without jumping over an exact match
+const BOOST_POINTS = 200;
+
 export class SymbolDatabase {
     private db: any | null = null;
     private insertFileStmt: any;
     private insertSymbolStmt: any;
     private deleteFileStmt: any;
+    private insertCallStmt: any;
+    private resolveCalleesStmt: any;
+    // False when the SQLite build has no FTS5 (search falls back to LIKE)
+    private hasFts: boolean = false;
+    // False when user functions cannot be registered (older node:sqlite): /regex/ filters are applied in JS only
+    private hasRegexp: boolean = false;
 
     constructor(private storagePath: string) {}
 
-    private readonly SCHEMA_VERSION = 1;
+    private readonly SCHEMA_VERSION = 5;
 
     public init() {
         // Ensure directory exists
@@ -58,6 +110,8 @@ export class SymbolDatabase {
         // Enable WAL for performance
         this.db.exec('PRAGMA journal_mode = WAL;');
         this.db.exec('PRAGMA synchronous = NORMAL;');
+        // Required for ON DELETE CASCADE (symbols and calls of a re-indexed file)
+        this.db.exec('PRAGMA foreign_keys = ON;');
 
         // Check Schema Version
         const versionResult = this.db.prepare('PRAGMA user_version').get() as { user_version: number };
@@ -79,11 +133,32 @@ export class SymbolDatabase {
             this.db = new DatabaseSync(this.storagePath);
             this.db.exec('PRAGMA journal_mode = WAL;');
             this.db.exec('PRAGMA synchronous = NORMAL;');
+            this.db.exec('PRAGMA foreign_keys = ON;');
             this.db.exec(`PRAGMA user_version = ${this.SCHEMA_VERSION}`);
         }
 
         this.createTables();
         this.prepareStatements();
+        this.registerFunctions();
+    }
+
+    private registerFunctions() {
+        if (typeof this.db.function !== 'function') {
+            this.hasRegexp = false;
+            return;
+        }
+
+        const cache = new Map<string, RegExp>();
+        this.db.function('symbol_regexp', { deterministic: true }, (source: string, flags: string, value: string) => {
+            const key = `${flags}/${source}`;
+            let regex = cache.get(key);
+            if (!regex) {
+                regex = new RegExp(source, flags);
+                cache.set(key, regex);
+            }
+            return regex.test(value) ? 1 : 0;
+        });
+        this.hasRegexp = true;
     }
 
     private createTables() {
@@ -114,14 +189,67 @@ export class SymbolDatabase {
                 selection_range_end_line INTEGER,
                 selection_range_end_char INTEGER,
                 container_name TEXT,
+                initials TEXT COLLATE NOCASE,
+                declaration TEXT,
+                doc_comment TEXT,
                 FOREIGN KEY(file_id) REFERENCES files(id) ON DELETE CASCADE
             );
         `);
 
+        // Call edges. callee_id is NULL until the callee's file is indexed (or after it was re-indexed).
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS calls (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                caller_id INTEGER,
+                callee_id INTEGER,
+                callee_name TEXT,
+                callee_path TEXT,
+                callee_line INTEGER,
+                callee_char INTEGER,
+                call_start_line INTEGER,
+                call_start_char INTEGER,
+                call_end_line INTEGER,
+                call_end_char INTEGER,
+                FOREIGN KEY(caller_id) REFERENCES symbols(id) ON DELETE CASCADE,
+                FOREIGN KEY(callee_id) REFERENCES symbols(id) ON DELETE SET NULL
+            );
+        `);
+
+        // Trigram full-text index over name/container_name for substring search, and over initials for abbreviations.
+        // External content table kept in sync by triggers, so insertFileAndSymbols/deleteFile (and the cascades) update it.
+        try {
+            this.db.exec(`
+                CREATE VIRTUAL TABLE IF NOT EXISTS symbols_fts USING fts5(
+                    name, container_name, initials,
+                    content='symbols', content_rowid='id',
+                    tokenize='trigram'
+                );
+            `);
+            this.db.exec(`
+                CREATE TRIGGER IF NOT EXISTS symbols_fts_insert AFTER INSERT ON symbols BEGIN
+                    INSERT INTO symbols_fts(rowid, name, container_name, initials) VALUES (new.id, new.name, new.container_name, new.initials);
+                END;
+            `);
+            this.db.exec(`
+                CREATE TRIGGER IF NOT EXISTS symbols_fts_delete AFTER DELETE ON symbols BEGIN
+                    INSERT INTO symbols_fts(symbols_fts, rowid, name, container_name, initials) VALUES ('delete', old.id, old.name, old.container_name, old.initials);
+                END;
+            `);
+            this.hasFts = true;
+        } catch (e) {
+            console.warn('[SymbolDatabase] FTS5 trigram tokenizer not available, using LIKE search.', e);
+            this.hasFts = false;
+        }
+
         // Indexes for faster search
         this.db.exec('CREATE INDEX IF NOT EXISTS idx_symbols_name ON symbols(name);');
         this.db.exec('CREATE INDEX IF NOT EXISTS idx_symbols_container ON symbols(container_name);');
+        this.db.exec('CREATE INDEX IF NOT EXISTS idx_symbols_initials ON symbols(initials);');
         this.db.exec('CREATE INDEX IF NOT EXISTS idx_files_path ON files(path);');
+        this.db.exec('CREATE INDEX IF NOT EXISTS idx_symbols_file ON symbols(file_id);');
+        this.db.exec('CREATE INDEX IF NOT EXISTS idx_calls_caller ON calls(caller_id);');
+        this.db.exec('CREATE INDEX IF NOT EXISTS idx_calls_callee ON calls(callee_id);');
+        this.db.exec('CREATE INDEX IF NOT EXISTS idx_calls_callee_path ON calls(callee_path);');
     }
 
     private prepareStatements() {
@@ -142,8 +270,28 @@ export class SymbolDatabase {
                 file_id, name, detail, kind, 
                 range_start_line, range_start_char, range_end_line, range_end_char,
                 selection_range_start_line, selection_range_start_char, selection_range_end_line, selection_range_end_char,
-                container_name
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                container_name, initials, declaration, doc_comment
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `);
+
+        this.insertCallStmt = this.db.prepare(`
+            INSERT INTO calls (
+                caller_id, callee_name, callee_path, callee_line, callee_char,
+                call_start_line, call_start_char, call_end_line, call_end_char
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `);
+
+        // Link unresolved calls to the callee symbol (matched by file, name and declaration line)
+        this.resolveCalleesStmt = this.db.prepare(`
+            UPDATE calls SET callee_id = (
+                SELECT s.id FROM symbols s
+                JOIN files f ON s.file_id = f.id
+                WHERE f.path = calls.callee_path
+                  AND s.name = calls.callee_name
+                  AND s.selection_range_start_line = calls.callee_line
+                LIMIT 1
+            )
+            WHERE callee_id IS NULL AND callee_path = ?
         `);
     }
 
@@ -159,7 +307,12 @@ export class SymbolDatabase {
         this.deleteFileStmt.run(filePath);
     }
 
-    public insertFileAndSymbols(filePath: string, mtime: number, symbols: Omit<SymbolRecord, 'id' | 'file_id'>[]) {
+    public insertFileAndSymbols(
+        filePath: string,
+        mtime: number,
+        symbols: Omit<SymbolRecord, 'id' | 'file_id'>[],
+        calls: CallInput[] = []
+    ) {
         if (!this.db) { throw new Error('DB not initialized'); }
 
         this.db.exec('BEGIN');
@@ -172,11 +325,12 @@ export class SymbolDatabase {
             const fileId = result.lastInsertRowid as number;
 
             // 3. Insert Symbols
+            const symbolIds: number[] = [];
             const chunkSize = 100;
             for (let i = 0; i < symbols.length; i += chunkSize) {
                 const chunk = symbols.slice(i, i + chunkSize);
                 for (const sym of chunk) {
-                    this.insertSymbolStmt.run(
+                    const symbolResult = this.insertSymbolStmt.run(
                         fileId,
                         sym.name,
                         sym.detail,
@@ -189,10 +343,41 @@ export class SymbolDatabase {
                         sym.selection_range_start_char,
                         sym.selection_range_end_line,
                         sym.selection_range_end_char,
-                        sym.container_name
+                        sym.container_name,
+                        getWordInitials(sym.name),
+                        sym.declaration ?? null,
+                        sym.doc_comment ?? null
                     );
+                    symbolIds.push(symbolResult.lastInsertRowid as number);
                 }
             }
+
+            // 4. Insert Calls
+            for (const call of calls) {
+                const callerId = symbolIds[call.caller_index];
+                if (callerId === undefined) {
+                    continue;
+                }
+                this.insertCallStmt.run(
+                    callerId,
+                    call.callee_name,
+                    call.callee_path,
+                    call.callee_line,
+                    call.callee_char,
+                    call.call_start_line,
+                    call.call_start_char,
+                    call.call_end_line,
+                    call.call_end_char
+                );
+            }
+
+            // 5. Resolve callees declared in this file (including calls recorded by other files)
+            this.resolveCalleesStmt.run(filePath);
+            if (calls.length > 0) {
+                const calleePaths = new Set(calls.map(c => c.callee_path));
+                calleePaths.delete(filePath);
+                calleePaths.forEach(p => this.resolveCalleesStmt.run(p));
+            }
             this.db.exec('COMMIT');
         } catch (err) {
             this.db.exec('ROLLBACK');
@@ -213,39 +398,261 @@ export class SymbolDatabase {
         return map;
     }
 
-    public search(query: string, limit: number, offset: number): SymbolRecord[] {
+    public search(query: string | SymbolQuery, limit: number, offset: number, kinds: number[] = [], boosts: RankBoost[] = []): SymbolRecord[] {
         if (!this.db) { throw new Error('DB not initialized'); }
 
-        // Split query into tokens
-        const tokens = query.split(/\s+/).filter(t => t.length > 0);
-        if (tokens.length === 0) {
-            return [];
-        }
+        // Split query into tokens and filters (kind:, in:, file:, -term, /regex/)
+        const parsed = typeof query === 'string' ? parseQuery(query) : query;
+        const tokens = parsed.keywords;
 
-        // Build dynamic SQL
-        // WHERE (name LIKE ? OR container_name LIKE ?) AND ...
+        // Build dynamic SQL, one condition per token:
+        // - substring: tokens of 3+ chars go through the trigram index, shorter ones use LIKE
+        // - abbreviation: consecutive word initials ("gsbr" / "GetSymBy" for getSymbolsByRange), through the
+        //   trigram index for 3+ initials, as a prefix (idx_symbols_initials) for 2. The fuzzy matcher refines the rows.
         const conditions: string[] = [];
         const params: any[] = [];
 
         for (const token of tokens) {
-            const likePattern = `%${token}%`;
-            conditions.push('(name LIKE ? OR container_name LIKE ?)');
-            params.push(likePattern, likePattern);
+            const alternatives: string[] = [];
+
+            if (this.hasFts && token.length >= 3) {
+                alternatives.push('s.id IN (SELECT rowid FROM symbols_fts WHERE symbols_fts MATCH ?)');
+                params.push(`{name container_name} : ${this.quoteFts(token)}`);
+            } else {
+                const likePattern = toContainsPattern(token);
+                alternatives.push("s.name LIKE ? ESCAPE '\\' OR s.container_name LIKE ? ESCAPE '\\'");
+                params.push(likePattern, likePattern);
+            }
+
+            const initials = getPatternInitials(token);
+            if (this.hasFts && initials.length >= 3) {
+                alternatives.push('s.id IN (SELECT rowid FROM symbols_fts WHERE symbols_fts MATCH ?)');
+                params.push(`initials : ${this.quoteFts(initials)}`);
+            } else if (initials.length >= 2) {
+                alternatives.push('s.initials LIKE ?');
+                params.push(initials.length === 2 ? `${initials}%` : `%${initials}%`);
+            }
+
+            conditions.push(`(${alternatives.join(' OR ')})`);
+        }
+
+        // Nothing to search for: kind filter chips alone do not list the whole index
+        if (conditions.length === 0 && !hasFilters(parsed)) {
+            return [];
+        }
+        this.addFilterConditions(parsed, conditions, params);
+
+        // Kind filter chips of the Symbol Window
+        if (kinds.length > 0) {
+            conditions.push(`s.kind IN (${kinds.map(() => '?').join(', ')})`);
+            params.push(...kinds);
+        }
+
+        // Ranked in SQL so that every page (LIMIT/OFFSET) comes from the globally sorted result set
+        const scoreParams: any[] = [];
+        let score = this.buildRelevanceScore(tokens, scoreParams);
+
+        // Boosted symbols, as an inline table joined on file and name
+        const boostParams: any[] = [];
+        let boostJoin = '';
+        if (boosts.length > 0) {
+            // getBaseSymbolName in SQL: indexed names still carry `(struct)` or a signature, boost names do not
+            const baseName = "CASE WHEN s.name LIKE '%)' AND instr(s.name, '(') > 0 THEN rtrim(substr(s.name, 1, instr(s.name, '(') - 1)) ELSE s.name END";
+            boostJoin = `LEFT JOIN boost b ON b.path = f.path AND b.name = ${baseName}`;
+            boosts.forEach(b => boostParams.push(b.path, b.name, b.weight));
+            score = `(${score} + coalesce(b.weight, 0) * ${BOOST_POINTS})`;
         }
 
         const sql = `
-            SELECT s.*, f.path as file_path 
+            ${boosts.length > 0 ? `WITH boost(path, name, weight) AS (VALUES ${boosts.map(() => '(?, ?, ?)').join(', ')})` : ''}
+            SELECT s.*, f.path as file_path, ${score} as score
             FROM symbols s
             JOIN files f ON s.file_id = f.id
-            WHERE ${conditions.join(' AND ')}
-            ORDER BY s.name ASC, f.path ASC
+            ${boostJoin}
+            WHERE ${conditions.length > 0 ? conditions.join(' AND ') : '1'}
+            ORDER BY score DESC, length(s.name) ASC, s.name ASC, f.path ASC
             LIMIT ? OFFSET ?
         `;
 
-        params.push(limit, offset);
-
         const stmt = this.db.prepare(sql);
-        return stmt.all(...params) as SymbolRecord[];
+        return stmt.all(...boostParams, ...scoreParams, ...params, limit, offset) as SymbolRecord[];
+    }
+
+    /** Filters of the query as SQL (matchesFilters in src/shared/query.ts applies the same rules in JS). */
+    private addFilterConditions(parsed: SymbolQuery, conditions: string[], params: any[]) {
+        if (parsed.kinds.length > 0) {
+            conditions.push(`s.kind IN (${parsed.kinds.map(() => '?').join(', ')})`);
+            params.push(...parsed.kinds);
+        }
+
+        for (const container of parsed.containers) {
+            if (this.hasFts && container.length >= 3) {
+                conditions.push('s.id IN (SELECT rowid FROM symbols_fts WHERE symbols_fts MATCH ?)');
+                params.push(`container_name : ${this.quoteFts(container)}`);
+            } else {
+                conditions.push("s.container_name LIKE ? ESCAPE '\\'");
+                params.push(toContainsPattern(container));
+            }
+        }
+
+        if (parsed.files.length > 0) {
+            conditions.push(`(${parsed.files.map(() => "replace(f.path, '\\', '/') GLOB ?").join(' OR ')})`);
+            params.push(...parsed.files);
+        }
+
+        for (const exclude of parsed.excludes) {
+            conditions.push("s.name NOT LIKE ? ESCAPE '\\' AND coalesce(s.container_name, '') NOT LIKE ? ESCAPE '\\'");
+            params.push(toContainsPattern(exclude), toContainsPattern(exclude));
+        }
+
+        if (this.hasRegexp) {
+            for (const regex of parsed.regexes) {
+                conditions.push('symbol_regexp(?, ?, s.name)');
+                params.push(regex.source, regex.flags);
+            }
+        }
+    }
+
+    private quoteFts(text: string): string {
+        return `"${text.replace(/"/g, '""')}"`;
+    }
+
+    /**
+     * Relevance of the symbol name for each token (summed), plus a weight by kind:
+     * exact > prefix > leading initials > word boundary (camelCase / snake_case) > initials > substring (earlier is better).
+     * Tokens that only match the container name score 0.
+     */
+    private buildRelevanceScore(tokens: string[], params: any[]): string {
+        const terms = tokens.map(token => {
+            const lower = token.toLowerCase();
+            const capitalized = lower.charAt(0).toUpperCase() + lower.slice(1);
+            params.push(lower, lower);
+            const cases = [
+                'WHEN lower(s.name) = ? THEN 10000',
+                'WHEN instr(lower(s.name), ?) = 1 THEN 1000'
+            ];
+            // Single initials would match almost every symbol
+            const initials = getPatternInitials(token);
+            if (initials.length >= 2) {
+                cases.push('WHEN instr(s.initials, ?) = 1 THEN 800');
+                params.push(initials);
+            }
+            cases.push('WHEN instr(s.name, ?) > 0 OR instr(lower(s.name), ?) > 0 THEN 500');
+            params.push(capitalized, `_${lower}`);
+            if (initials.length >= 2) {
+                cases.push('WHEN instr(s.initials, ?) > 0 THEN 300');
+                params.push(initials);
+            }
+            cases.push('WHEN instr(lower(s.name), ?) > 0 THEN MAX(0, 101 - instr(lower(s.name), ?))');
+            params.push(lower, lower);
+            return `
+                CASE
+                    ${cases.join('\n                    ')}
+                    ELSE 0
+                END`;
+        });
+
+        const kindWeight = `
+            CASE
+                WHEN s.kind IN (${SymbolKind.Class}, ${SymbolKind.Struct}, ${SymbolKind.Interface}, ${SymbolKind.Enum}) THEN 50
+                WHEN s.kind IN (${SymbolKind.Function}, ${SymbolKind.Method}, ${SymbolKind.Constructor}) THEN 40
+                WHEN s.kind IN (${SymbolKind.Module}, ${SymbolKind.Namespace}) THEN 30
+                WHEN s.kind IN (${SymbolKind.Variable}, ${SymbolKind.Constant}, ${SymbolKind.Field}, ${SymbolKind.Property}, ${SymbolKind.EnumMember}) THEN 10
+                ELSE 0
+            END`;
+
+        return `(${[...terms, kindWeight].join(' + ')})`;
+    }
+
+    /** Symbol declared at the given line (selection range), e.g. the function under the cursor. */
+    public findSymbolAt(filePath: string, line: number, character: number): SymbolRecord | undefined {
+        if (!this.db) { throw new Error('DB not initialized'); }
+
+        const stmt = this.db.prepare(`
+            SELECT s.*, f.path as file_path
+            FROM symbols s
+            JOIN files f ON s.file_id = f.id
+            WHERE f.path = ?
+              AND s.selection_range_start_line = ?
+              AND s.selection_range_start_char <= ?
+              AND s.selection_range_end_char >= ?
+            LIMIT 1
+        `);
+        return stmt.get(filePath, line, character, character) as SymbolRecord | undefined;
+    }
+
+    /** Symbols of a file with the given name and kind, used to re-resolve favorites after edits. */
+    public findSymbolsByName(filePath: string, name: string, kind: number): SymbolRecord[] {
+        if (!this.db) { throw new Error('DB not initialized'); }
+
+        const stmt = this.db.prepare(`
+            SELECT s.*, f.path as file_path
+            FROM symbols s
+            JOIN files f ON s.file_id = f.id
+            WHERE f.path = ? AND s.name = ? AND s.kind = ?
+            ORDER BY s.selection_range_start_line ASC
+        `);
+        return stmt.all(filePath, name, kind) as SymbolRecord[];
+    }
+
+    /** Functions, methods and constructors of a file, used to map text occurrences to their enclosing function. */
+    public getCallableSymbols(filePath: string): SymbolRecord[] {
+        if (!this.db) { throw new Error('DB not initialized'); }
+
+        const stmt = this.db.prepare(`
+            SELECT s.*, f.path as file_path
+            FROM symbols s
+            JOIN files f ON s.file_id = f.id
+            WHERE f.path = ? AND s.kind IN (?, ?, ?)
+        `);
+        return stmt.all(filePath, SymbolKind.Function, SymbolKind.Method, SymbolKind.Constructor) as SymbolRecord[];
+    }
+
+    /** Who calls the symbol: one row per call site, ordered by caller file and line. */
+    public getCallers(symbolId: number): CallRecord[] {
+        if (!this.db) { throw new Error('DB not initialized'); }
+
+        const stmt = this.db.prepare(`
+            SELECT s.*, f.path as file_path,
+                   c.call_start_line, c.call_start_char, c.call_end_line, c.call_end_char
+            FROM calls c
+            JOIN symbols s ON c.caller_id = s.id
+            JOIN files f ON s.file_id = f.id
+            WHERE c.callee_id = ?
+            ORDER BY f.path ASC, c.call_start_line ASC
+        `);
+        return stmt.all(symbolId) as CallRecord[];
+    }
+
+    /** What the symbol calls: one row per call site. Unresolved callees (file not indexed yet) are skipped. */
+    public getCallees(symbolId: number): CallRecord[] {
+        if (!this.db) { throw new Error('DB not initialized'); }
+
+        const stmt = this.db.prepare(`
+            SELECT s.*, f.path as file_path,
+                   c.call_start_line, c.call_start_char, c.call_end_line, c.call_end_char
+            FROM calls c
+            JOIN symbols s ON c.callee_id = s.id
+            JOIN files f ON s.file_id = f.id
+            WHERE c.caller_id = ?
+            ORDER BY c.call_start_line ASC
+        `);
+        return stmt.all(symbolId) as CallRecord[];
+    }
+
+    /** Every symbol, a page at a time (rows after `afterId`, in insertion order, so grouped by file). Used by exports. */
+    public getSymbolsAfter(afterId: number, limit: number): SymbolRecord[] {
+        if (!this.db) { throw new Error('DB not initialized'); }
+
+        const stmt = this.db.prepare(`
+            SELECT s.*, f.path as file_path
+            FROM symbols s
+            JOIN files f ON s.file_id = f.id
+            WHERE s.id > ?
+            ORDER BY s.id ASC
+            LIMIT ?
+        `);
+        return stmt.all(afterId, limit) as SymbolRecord[];
     }
 
     public getFileCount(): number {
@@ -256,6 +663,7 @@ export class SymbolDatabase {
 
     public clear() {
         if (!this.db) { return; }
+        this.db.exec('DELETE FROM calls;');
         this.db.exec('DELETE FROM symbols;');
         this.db.exec('DELETE FROM files;');
         // Vacuum to reclaim space? Maybe overkill for now.
@@ -0,0 +1,216 @@
+import { SymbolItem } from './types';
+
+export interface FuzzyMatch {
+    score: number;
+    // Indices of the matched characters in the word
+    positions: number[];
+}
+
+const isUpper = (ch: string) => ch !== ch.toLowerCase();
+const isLower = (ch: string) => ch !== ch.toUpperCase();
+const isDigit = (ch: string) => ch >= '0' && ch <= '9';
+const isAlphaNumeric = (ch: string) => /[\p{L}\p{N}]/u.test(ch);
+
+/**
+ * Start of a word inside an identifier: first character, after a separator (`_`, `.`, `:`...),
+ * a camelCase hump, the last capital of an acronym (`HTTPServer` -> `S`) or the first digit of a number.
+ */
+export function isWordStart(word: string, index: number): boolean {
+    const ch = word[index];
+    if (!isAlphaNumeric(ch)) {
+        return false;
+    }
+    if (index === 0) {
+        return true;
+    }
+    const prev = word[index - 1];
+    if (!isAlphaNumeric(prev)) {
+        return true;
+    }
+    if (isUpper(ch)) {
+        if (!isUpper(prev)) {
+            return true;
+        }
+        const next = word[index + 1];
+        return next !== undefined && isLower(next);
+    }
+    return isDigit(ch) && !isDigit(prev);
+}
+
+/** First letter of every word, lowercased: `getSymbolsByRange` -> `gsbr`. Indexed by the database for abbreviation search. */
+export function getWordInitials(name: string): string {
+    let initials = '';
+    for (let i = 0; i < name.length; i++) {
+        if (isWordStart(name, i)) {
+            initials += name[i].toLowerCase();
+        }
+    }
+    return initials;
+}
+
+/**
+ * Initials a search token stands for: the word starts of a mixed-case or separated token (`GetSymBy` -> `gsb`),
+ * otherwise the token itself read as an abbreviation (`gsbr`).
+ */
+export function getPatternInitials(pattern: string): string {
+    const hasWords = /[^\p{L}\p{N}]/u.test(pattern) || (pattern !== pattern.toLowerCase() && pattern !== pattern.toUpperCase());
+    if (hasWords) {
+        return getWordInitials(pattern);
+    }
+    return pattern.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+/**
+ * Symbol name without the suffixes the Symbol Window can move out of it: a C-style type (`config (struct)`)
+ * and a signature (`parse(int a)`), i.e. everything from the first `(` of a name ending with `)`.
+ * The same rule is written in SQL by SymbolDatabase.search, so names from the index and the webview agree.
+ */
+export function getBaseSymbolName(name: string): string {
+    const paren = name.indexOf('(');
+    return name.endsWith(')') && paren >= 0 ? name.slice(0, paren).replace(/ +$/, '') : name;
+}
+
+const MAX_WORD_LENGTH = 255;
+
+/**
+ * Case-insensitive fuzzy match of `pattern` against `word`, as in VS Code's Go to Symbol.
+ * The pattern is split into runs of consecutive characters: the first run may start anywhere
+ * (so every substring matches), every following run must start at a word start (`gsbr`, `GetSymBy`
+ * both match `getSymbolsByRange`). Returns the best scoring alignment, or undefined.
+ */
+export function fuzzyMatch(pattern: string, word: string): FuzzyMatch | undefined {
+    const m = pattern.length;
+    const n = Math.min(word.length, MAX_WORD_LENGTH);
+    if (m === 0 || m > n) {
+        return undefined;
+    }
+
+    const lowerPattern = pattern.toLowerCase();
+    const lowerWord = word.toLowerCase();
+
+    const charScore = (i: number, j: number, consecutive: boolean) => {
+        let score = 1;
+        if (pattern[i] === word[j]) {
+            score += 1;
+        }
+        if (isWordStart(word, j)) {
+            score += j === 0 ? 12 : 8;
+        }
+        if (consecutive) {
+            score += 5;
+        }
+        return score;
+    };
+
+    // scores[i][j]: best score with pattern[i] matched at word[j]; from[i][j]: where pattern[i - 1] was matched
+    const scores: number[][] = [];
+    const from: number[][] = [];
+
+    for (let i = 0; i < m; i++) {
+        const row = new Array<number>(n).fill(-1);
+        const back = new Array<number>(n).fill(-1);
+        // Best score of the previous row strictly before j - 1 (a gap), and where it was
+        let bestBefore = -1;
+        let bestBeforeIndex = -1;
+
+        for (let j = i; j < n; j++) {
+            if (i > 0 && j >= 2 && scores[i - 1][j - 2] > bestBefore) {
+                bestBefore = scores[i - 1][j - 2];
+                bestBeforeIndex = j - 2;
+            }
+            if (lowerPattern[i] !== lowerWord[j]) {
+                continue;
+            }
+
+            if (i === 0) {
+                row[j] = charScore(i, j, false);
+                continue;
+            }
+
+            if (scores[i - 1][j - 1] >= 0) {
+                row[j] = scores[i - 1][j - 1] + charScore(i, j, true);
+                back[j] = j - 1;
+            }
+            if (bestBefore >= 0 && isWordStart(word, j)) {
+                const score = bestBefore + charScore(i, j, false);
+                if (score > row[j]) {
+                    row[j] = score;
+                    back[j] = bestBeforeIndex;
+                }
+            }
+        }
+        scores.push(row);
+        from.push(back);
+    }
+
+    let best = -1;
+    let end = -1;
+    for (let j = 0; j < n; j++) {
+        if (scores[m - 1][j] > best) {
+            best = scores[m - 1][j];
+            end = j;
+        }
+    }
+    if (end < 0) {
+        return undefined;
+    }
+
+    const positions: number[] = [];
+    for (let i = m - 1, j = end; i >= 0; j = from[i][j], i--) {
+        positions.unshift(j);
+    }
+
+    // Whole-name matches first
+    if (m === word.length) {
+        best += 20;
+    }
+    return { score: best, positions };
+}
+
+/**
+ * Every keyword must fuzzy-match the name, or appear in the detail (container / signature).
+ * Scores and positions only count the name.
+ */
+export function matchKeywords(keywords: string[], name: string, detail?: string): FuzzyMatch | undefined {
+    let score = 0;
+    const positions = new Set<number>();
+    const lowerDetail = (detail || '').toLowerCase();
+
+    for (const keyword of keywords) {
+        const match = fuzzyMatch(keyword, name);
+        if (match) {
+            score += match.score;
+            match.positions.forEach(p => positions.add(p));
+        } else if (!lowerDetail.includes(keyword.toLowerCase())) {
+            return undefined;
+        }
+    }
+
+    return { score, positions: Array.from(positions).sort((a, b) => a - b) };
+}
+
+/**
+ * Sorts by match score (then alphabetically) and records the match positions on each symbol.
+ * `getBoost` adds points to matching symbols, e.g. for symbols we often jump to.
+ */
+export function sortSymbolsByRelevance(symbols: SymbolItem[], keywords: string[], getBoost?: (symbol: SymbolItem) => number): SymbolItem[] {
+    // If no query, sort alphabetically only
+    if (keywords.length === 0) {
+        return symbols.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    const scoredSymbols = symbols.map(symbol => {
+        const match = matchKeywords(keywords, symbol.name, symbol.detail);
+        symbol.matches = match?.positions;
+        return { symbol, score: match ? match.score + (getBoost ? getBoost(symbol) : 0) : 0 };
+    });
+
+    return scoredSymbols
+        .sort((a, b) => {
+            if (b.score !== a.score) {
+                return b.score - a.score;
+            }
+            return a.symbol.name.localeCompare(b.symbol.name);
+        })
+        .map(item => item.symbol);
+}
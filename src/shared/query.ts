@@ -0,0 +1,155 @@
+/**
+ * Search box query with filter tokens, e.g. `init kind:function in:Driver file:drivers/*.c -test /_probe$/`.
+ * Plain words stay fuzzy keywords; filters are applied by every search path (database, LSP, current document).
+ */
+export interface SymbolQuery {
+    keywords: string[];
+    // kind:function,method (any of)
+    kinds: number[];
+    // in:MyClass (container name contains, all of)
+    containers: string[];
+    // file:drivers/*.c (path glob, any of), already normalized by toPathGlob
+    files: string[];
+    // -test (name or container must not contain, none of)
+    excludes: string[];
+    // /regex/flags (on the name, all of)
+    regexes: RegExp[];
+}
+
+/** Symbol fields the filters look at. `path` uses forward slashes; file filters are skipped when it is unknown. */
+export interface QueryTarget {
+    name: string;
+    kind: number;
+    container?: string;
+    path?: string;
+}
+
+// vscode.SymbolKind (0-based), by lowercase name
+const SYMBOL_KINDS: Record<string, number> = {
+    file: 0, module: 1, namespace: 2, package: 3, class: 4, method: 5, property: 6, field: 7,
+    constructor: 8, enum: 9, interface: 10, function: 11, variable: 12, constant: 13, string: 14,
+    number: 15, boolean: 16, array: 17, object: 18, key: 19, null: 20, enummember: 21, struct: 22,
+    event: 23, operator: 24, typeparameter: 25
+};
+
+/** Kinds named by a `kind:` value: exact name first, otherwise every kind it is a prefix of (`func`, `var`). */
+export function parseSymbolKind(value: string): number[] {
+    const lower = value.toLowerCase();
+    if (lower in SYMBOL_KINDS) {
+        return [SYMBOL_KINDS[lower]];
+    }
+    return Object.keys(SYMBOL_KINDS).filter(name => name.startsWith(lower)).map(name => SYMBOL_KINDS[name]);
+}
+
+/**
+ * SQLite GLOB pattern for a `file:` value: `*` and `?` match any characters (including `/`),
+ * a value without wildcards matches anywhere in the path, otherwise the end of the path.
+ */
+export function toPathGlob(value: string): string {
+    const glob = value.replace(/\\/g, '/');
+    if (!/[*?[]/.test(glob)) {
+        return `*${glob}*`;
+    }
+    return glob.startsWith('/') || glob.startsWith('*') ? glob : `*${glob}`;
+}
+
+/** Same semantics as SQLite GLOB (case-sensitive, `*`, `?` and `[...]`). */
+export function globToRegExp(glob: string): RegExp {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const ch = glob[i];
+        if (ch === '*') {
+            source += '.*';
+        } else if (ch === '?') {
+            source += '.';
+        } else if (ch === '[' && glob.indexOf(']', i + 1) > i) {
+            const end = glob.indexOf(']', i + 1);
+            source += `[${glob.slice(i + 1, end).replace(/\\/g, '\\\\')}]`;
+            i = end;
+        } else {
+            source += ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+const REGEX_TOKEN = /^\/(.+)\/([a-z]*)$/;
+
+export function parseQuery(query: string): SymbolQuery {
+    const parsed: SymbolQuery = { keywords: [], kinds: [], containers: [], files: [], excludes: [], regexes: [] };
+
+    for (const token of query.trim().split(/\s+/).filter(t => t.length > 0)) {
+        const regexMatch = REGEX_TOKEN.exec(token);
+        if (regexMatch) {
+            try {
+                // g / y make test() stateful
+                parsed.regexes.push(new RegExp(regexMatch[1], regexMatch[2].replace(/[gy]/g, '')));
+                continue;
+            } catch (e) {
+                // Invalid regex: keep it as a keyword
+            }
+        }
+
+        const filterMatch = /^(kind|in|file):(.+)$/i.exec(token);
+        if (filterMatch) {
+            const value = filterMatch[2];
+            switch (filterMatch[1].toLowerCase()) {
+                case 'kind': {
+                    const kinds = value.split(',').flatMap(parseSymbolKind);
+                    if (kinds.length > 0) {
+                        kinds.forEach(k => { if (!parsed.kinds.includes(k)) { parsed.kinds.push(k); } });
+                        continue;
+                    }
+                    // Unknown kind: keep it as a keyword
+                    break;
+                }
+                case 'in':
+                    parsed.containers.push(value);
+                    continue;
+                case 'file':
+                    parsed.files.push(toPathGlob(value));
+                    continue;
+            }
+        }
+
+        if (token.length > 1 && token.startsWith('-')) {
+            parsed.excludes.push(token.slice(1));
+            continue;
+        }
+
+        parsed.keywords.push(token);
+    }
+
+    return parsed;
+}
+
+export function hasFilters(query: SymbolQuery): boolean {
+    return query.kinds.length > 0 || query.containers.length > 0 || query.files.length > 0
+        || query.excludes.length > 0 || query.regexes.length > 0;
+}
+
+/** The filter part of the query (keywords are matched separately, see matchKeywords). */
+export function matchesFilters(query: SymbolQuery, target: QueryTarget): boolean {
+    if (query.kinds.length > 0 && !query.kinds.includes(target.kind)) {
+        return false;
+    }
+
+    const container = (target.container || '').toLowerCase();
+    if (!query.containers.every(c => container.includes(c.toLowerCase()))) {
+        return false;
+    }
+
+    if (query.files.length > 0 && target.path !== undefined) {
+        const path = target.path;
+        if (!query.files.some(glob => globToRegExp(glob).test(path))) {
+            return false;
+        }
+    }
+
+    const name = target.name.toLowerCase();
+    if (query.excludes.some(e => name.includes(e.toLowerCase()) || container.includes(e.toLowerCase()))) {
+        return false;
+    }
+
+    return query.regexes.every(r => r.test(target.name));
+}
@@ -9,19 +9,53 @@ export interface SymbolItem {
     containerName?: string;
     autoExpand?: boolean;
     isDeepSearch?: boolean;
+    matches?: number[]; // Indices of the name characters matched by the search query
+    group?: 'folder' | 'file'; // Group row of the "group by file" view (see groupSymbolsByFile)
+    declaration?: string; // Declaration line and doc comment, from the database index (tooltip)
+    documentation?: string;
 }
 
 export type SymbolMode = 'current' | 'project';
 
+// Symbol navigation history (back / forward trail of jumps), as shown in the webview
+export interface NavigationEntry {
+    label: string; // Symbol name, or file:line for the place a jump started from
+    detail: string; // file:line
+}
+
+// Starred symbol, stored by identity rather than position so it survives edits that shift lines
+export interface FavoriteSymbol {
+    path: string; // fsPath, as in the database
+    name: string;
+    containerName?: string;
+    kind: number; // vscode.SymbolKind
+}
+
+// Source of the selected symbol for the preview pane, with a few context lines around it
+export interface CodePreview {
+    uri: string;
+    languageId: string;
+    firstLine: number; // 0-based line of lines[0]
+    lines: string[];
+    symbolStartLine: number; // 0-based lines of the symbol range
+    symbolEndLine: number;
+    truncated: boolean; // Symbol longer than the preview limit
+}
+
 export interface WebviewState {
     mode: SymbolMode;
     query: string;
     showDetails?: boolean;
     includePattern?: string;
+    kindFilters?: string[]; // Selected kind filter chips (see KindFilterBar)
+    showHistory?: boolean; // Navigation history list expanded
+    showFavorites?: boolean; // Favorites list expanded
+    groupByFile?: boolean; // Project results shown as folder -> file -> symbol
+    showPreview?: boolean; // Code preview pane of the selected symbol
 }
 
 export type Message = 
-    | { command: 'updateSymbols'; symbols: SymbolItem[]; totalCount?: number }
+    | { command: 'updateSymbols'; symbols: SymbolItem[]; totalCount?: number; uri?: string } // uri: document of a current-mode outline
     | { command: 'highlight'; uri: string; range: any }
     | { command: 'setMode'; mode: SymbolMode }
     | { command: 'status'; status: 'ready' | 'loading' | 'timeout' }
@@ -33,15 +67,67 @@ export type Message =
     | { command: 'progress'; percent: number }
     | { command: 'setDatabaseMode'; enabled: boolean }
     | { command: 'appendSymbols'; symbols: SymbolItem[]; totalCount?: number }
-    | { command: 'focusSearch' };
+    | { command: 'focusSearch' }
+    | { command: 'updateHistory'; entries: NavigationEntry[]; index: number }
+    | { command: 'updateFavorites'; favorites: FavoriteSymbol[] }
+    | { command: 'showPreview'; requestId: number; preview?: CodePreview };
 
 export type WebviewMessage =
-    | { command: 'search'; query: string; includePattern?: string }
-    | { command: 'jump'; uri?: string; range: any }
+    | { command: 'search'; query: string; includePattern?: string; kinds?: number[] }
+    | { command: 'jump'; uri?: string; range: any; name?: string }
     | { command: 'ready'; hasSymbols?: boolean }
     | { command: 'loadMore' }
     | { command: 'deepSearch' }
     | { command: 'cancel' }
     | { command: 'selectScope' }
     | { command: 'clearScope' }
-    | { command: 'logSelection'; symbolName: string; uri: string; line: number };
+    | { command: 'navigateHistory'; index: number }
+    | { command: 'openFavorite'; index: number }
+    | { command: 'removeFavorite'; index: number }
+    | { command: 'preview'; requestId: number; uri?: string; range: any };
+
+// Attached to Symbol Window items (data-vscode-context) and passed to their context menu commands
+export interface SymbolMenuContext {
+    webviewSection: 'symbol';
+    symbolName: string;
+    symbolUri?: string; // Missing in Current Document mode (the active editor)
+    symbolKind: number;
+    containerName?: string; // Parent symbol in Current Document mode
+    line: number;
+    character: number;
+}
+
+// --- Relation Window ---
+
+export type RelationDirection = 'incoming' | 'outgoing' | 'typeHierarchy';
+
+export interface RelationItem {
+    id: string; // Unique per node (recursion may show the same symbol twice)
+    name: string;
+    detail: string;
+    kind: number; // vscode.SymbolKind
+    uri: string;
+    range: any; // vscode.Range - call site (or symbol location for the root)
+    expandable: boolean; // Children are resolved lazily via 'resolveHierarchy'
+    children?: RelationItem[]; // Pre-resolved children (e.g. file groups)
+    isDeepSearch?: boolean;
+    isHeuristic?: boolean; // Text match attributed to its enclosing function (no call hierarchy)
+    isCycle?: boolean; // Already on the path from the root (recursion): not expandable
+}
+
+export type RelationMessage =
+    | { command: 'updateRelation'; requestId: number; root: RelationItem; children: RelationItem[]; direction: RelationDirection; hasMore?: boolean; title?: string }
+    | { command: 'updateNode'; requestId: number; itemId: string; children: RelationItem[] }
+    | { command: 'appendRelation'; requestId: number; children: RelationItem[]; hasMore?: boolean }
+    | { command: 'setDirection'; direction: RelationDirection }
+    | { command: 'setLocked'; locked: boolean }
+    | { command: 'expandNodes'; itemIds: string[] }
+    | { command: 'stale' };
+
+export type RelationWebviewMessage =
+    | { command: 'ready' }
+    | { command: 'resolveHierarchy'; itemId: string; direction: RelationDirection }
+    | { command: 'cancelHierarchy'; itemId: string }
+    | { command: 'preview'; uri: string; range: any }
+    | { command: 'jump'; uri: string; range: any }
+    | { command: 'loadMore' };
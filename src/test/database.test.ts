@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SymbolFrecency } from '../features/symbol/SymbolFrecency';
+import { SymbolDatabase, SymbolRecord } from '../shared/db/database';
+
+function symbol(name: string, containerName: string, line: number): Omit<SymbolRecord, 'id' | 'file_id'> {
+	return {
+		name, detail: '', kind: 11, container_name: containerName,
+		range_start_line: line, range_start_char: 0, range_end_line: line + 2, range_end_char: 1,
+		selection_range_start_line: line, selection_range_start_char: 4, selection_range_end_line: line, selection_range_end_char: 4 + name.length
+	};
+}
+
+suite('Symbol Database Test Suite', () => {
+	let dir: string;
+	let db: SymbolDatabase;
+
+	suiteSetup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'symbol-window-db-'));
+		db = new SymbolDatabase(path.join(dir, 'symbols.db'));
+		db.init();
+		db.insertFileAndSymbols('/src/a.c', 1, [
+			symbol('attest', 'a_b', 0),
+			symbol('run_test', 'axb', 10),
+			symbol('runxtest', 'axb', 20)
+		]);
+		// Raw clangd names: the Symbol Window shows them as `config` and `parse`
+		for (const file of ['/src/b.c', '/src/c.c']) {
+			db.insertFileAndSymbols(file, 1, [symbol('config (struct)', '', 0), symbol('parse(int a)', '', 10)]);
+		}
+	});
+
+	suiteTeardown(() => {
+		db.close();
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	const names = (query: string) => db.search(`${query} file:a.c`, 100, 0).map(r => r.name).sort();
+
+	test('underscores in filters and short keywords should match literally', () => {
+		assert.deepStrictEqual(names('-_test'), ['attest', 'runxtest']);
+		assert.deepStrictEqual(names('in:a_b'), ['attest']);
+		assert.deepStrictEqual(names('n_'), ['run_test']);
+	});
+
+	test('frecency of a cleaned name should boost the indexed symbol', () => {
+		const firstFile = (query: string, frecency: SymbolFrecency) =>
+			db.search(query, 10, 0, [], frecency.getTopWeights(10))[0].file_path;
+
+		// Same score otherwise: ties go to the first path
+		assert.strictEqual(firstFile('config', new SymbolFrecency()), '/src/b.c');
+
+		// Jumps record the names shown in the webview
+		const frecency = new SymbolFrecency();
+		frecency.record('/src/c.c', 'config');
+		frecency.record('/src/c.c', 'parse');
+		assert.strictEqual(firstFile('config', frecency), '/src/c.c');
+		assert.strictEqual(firstFile('parse', frecency), '/src/c.c');
+	});
+});
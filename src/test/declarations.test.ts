@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { getDeclarationLine, getDocComment } from '../features/symbol/indexer/declarations';
+
+suite('Declaration Snippets Test Suite', () => {
+
+	test('should read block doc comments', () => {
+		const lines = [
+			'#include <linux/netdevice.h>',
+			'',
+			'/**',
+			' * eth_init - bring the interface up',
+			' * @dev: the device',
+			' */',
+			'static int eth_init(struct net_device *dev)',
+			'{'
+		];
+		assert.strictEqual(getDocComment(lines, 6), 'eth_init - bring the interface up\n@dev: the device');
+		assert.strictEqual(getDeclarationLine(lines, 6), 'static int eth_init(struct net_device *dev)');
+	});
+
+	test('should read line comments and stop at blank lines and code', () => {
+		const lines = [
+			'// License header',
+			'',
+			'int x;',
+			'/// Parses the input.',
+			'/// Returns the AST.',
+			'function parse() {}'
+		];
+		assert.strictEqual(getDocComment(lines, 5), 'Parses the input.\nReturns the AST.');
+		assert.strictEqual(getDocComment(lines, 2), undefined);
+	});
+
+	test('# is a comment, but not a preprocessor directive', () => {
+		assert.strictEqual(getDocComment(['# Adds two numbers', 'def add(a, b):'], 1), 'Adds two numbers');
+		assert.strictEqual(getDocComment(['#define MAX 10', 'int buf[MAX];'], 1), undefined);
+		assert.strictEqual(getDocComment(['/** Single line. */', 'void f();'], 1), 'Single line.');
+	});
+
+	test('should not take a trailing comment of the previous line', () => {
+		assert.strictEqual(getDocComment(['int x; /* trailing */', 'void f();'], 1), undefined);
+		assert.strictEqual(getDocComment(['int x; /* starts here', '   ends here */', 'void f();'], 2), undefined);
+	});
+});
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { fuzzyMatch, getPatternInitials, getWordInitials, matchKeywords, sortSymbolsByRelevance } from '../shared/fuzzy';
+import { SymbolItem } from '../shared/types';
+
+suite('Fuzzy Matcher Test Suite', () => {
+
+	test('should match abbreviations and camelCase humps', () => {
+		assert.deepStrictEqual(fuzzyMatch('gsbr', 'getSymbolsByRange')?.positions, [0, 3, 10, 12]);
+		assert.deepStrictEqual(fuzzyMatch('GetSymBy', 'getSymbolsByRange')?.positions, [0, 1, 2, 3, 4, 5, 10, 11]);
+		assert.deepStrictEqual(fuzzyMatch('mv', 'MAX_VALUE')?.positions, [0, 4]);
+	});
+
+	test('should keep substring matches', () => {
+		assert.deepStrictEqual(fuzzyMatch('bols', 'getSymbolsByRange')?.positions, [6, 7, 8, 9]);
+		assert.deepStrictEqual(fuzzyMatch('RANGE', 'getSymbolsByRange')?.positions, [12, 13, 14, 15, 16]);
+	});
+
+	test('should reject characters out of order or inside words', () => {
+		assert.strictEqual(fuzzyMatch('gbs', 'getSymbolsByRange'), undefined);
+		assert.strictEqual(fuzzyMatch('gtl', 'getSymbolsByRange'), undefined);
+		assert.strictEqual(fuzzyMatch('rangeX', 'getSymbolsByRange'), undefined);
+	});
+
+	test('should rank prefix and exact matches first', () => {
+		const exact = fuzzyMatch('get', 'get')!.score;
+		const prefix = fuzzyMatch('get', 'getValue')!.score;
+		const inner = fuzzyMatch('get', 'forget')!.score;
+		assert.ok(exact > prefix);
+		assert.ok(prefix > inner);
+	});
+
+	test('initials should follow word starts', () => {
+		assert.strictEqual(getWordInitials('getSymbolsByRange'), 'gsbr');
+		assert.strictEqual(getWordInitials('HTTPServer'), 'hs');
+		assert.strictEqual(getWordInitials('__init__'), 'i');
+		assert.strictEqual(getPatternInitials('GetSymBy'), 'gsb');
+		assert.strictEqual(getPatternInitials('get_sym'), 'gs');
+		assert.strictEqual(getPatternInitials('gsbr'), 'gsbr');
+	});
+
+	test('matchKeywords should accept keywords found in the detail only', () => {
+		assert.deepStrictEqual(matchKeywords(['gsbr', 'Model'], 'getSymbolsByRange', 'SymbolModel')?.positions, [0, 3, 10, 12]);
+		assert.strictEqual(matchKeywords(['gsbr', 'View'], 'getSymbolsByRange', 'SymbolModel'), undefined);
+	});
+
+	test('sortSymbolsByRelevance should order by score and record positions', () => {
+		const symbol = (name: string): SymbolItem => ({ name, detail: '', kind: 11, range: null, selectionRange: null, children: [] });
+		const sorted = sortSymbolsByRelevance([symbol('forgetSymbol'), symbol('getSymbol'), symbol('gs')], ['gs']);
+		assert.deepStrictEqual(sorted.map(s => s.name), ['gs', 'getSymbol', 'forgetSymbol']);
+		assert.deepStrictEqual(sorted[1].matches, [0, 3]);
+
+		const boosted = sortSymbolsByRelevance([symbol('getSymbol'), symbol('forgetSymbol')], ['gs'], s => s.name === 'forgetSymbol' ? 100 : 0);
+		assert.deepStrictEqual(boosted.map(s => s.name), ['forgetSymbol', 'getSymbol']);
+	});
+});
@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import { getUriPath, groupSymbolsByFile } from '../webview/features/symbol/groupSymbols';
+import { SymbolItem } from '../shared/types';
+
+function symbol(name: string, uri: string): SymbolItem {
+	return { name, detail: '', kind: 11, range: null, selectionRange: null, children: [], uri };
+}
+
+suite('Group Symbols Test Suite', () => {
+
+	const results = [
+		symbol('eth_init', 'file:///linux/drivers/net/eth.c'),
+		symbol('usb_init', 'file:///linux/drivers/usb/core.c'),
+		symbol('eth_init', 'file:///linux/drivers/net/eth.h'),
+		symbol('eth_probe', 'file:///linux/drivers/net/eth.c')
+	];
+
+	test('should fold results into folders and files with counts', () => {
+		const groups = groupSymbolsByFile(results);
+		assert.deepStrictEqual(groups.map(g => `${g.name} (${g.detail})`), ['net (3)', 'usb (1)']);
+		assert.deepStrictEqual(groups[0].children.map(f => `${f.name} (${f.detail})`), ['eth.c (2)', 'eth.h (1)']);
+		assert.deepStrictEqual(groups[0].children[0].children.map(s => s.name), ['eth_init', 'eth_probe']);
+		assert.strictEqual(groups[0].group, 'folder');
+		assert.strictEqual(groups[0].children[0].group, 'file');
+	});
+
+	test('should name a single folder after its last segment', () => {
+		const groups = groupSymbolsByFile(results.filter(s => s.uri!.includes('/net/')));
+		assert.deepStrictEqual(groups.map(g => g.name), ['net']);
+	});
+
+	test('should reuse cached group items', () => {
+		const cache = new Map<string, SymbolItem>();
+		const first = groupSymbolsByFile(results.slice(0, 2), cache);
+		const second = groupSymbolsByFile(results, cache);
+		assert.strictEqual(second[0], first[0]);
+		assert.strictEqual(second[0].detail, '3');
+	});
+
+	test('getUriPath should decode the path', () => {
+		assert.strictEqual(getUriPath('file:///c%3A/My%20Project/a.ts'), '/c:/My Project/a.ts');
+	});
+});
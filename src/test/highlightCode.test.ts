@@ -0,0 +1,26 @@
+import * as assert from 'assert';
+import { tokenizeLines } from '../webview/features/symbol/highlightCode';
+
+const types = (tokens: { text: string; type: string }[]) => tokens.filter(t => t.type !== 'plain').map(t => `${t.type}:${t.text}`);
+
+suite('Code Preview Highlighting Test Suite', () => {
+
+	test('should find keywords, calls, strings, numbers and comments', () => {
+		const [line] = tokenizeLines(['static int count = parse("a\\"b", 0x1F); // done'], 'c');
+		assert.deepStrictEqual(types(line), [
+			'keyword:static', 'keyword:int', 'function:parse', 'string:"a\\"b"', 'number:0x1F', 'comment:// done'
+		]);
+		assert.strictEqual(line.map(t => t.text).join(''), 'static int count = parse("a\\"b", 0x1F); // done');
+	});
+
+	test('should carry block comments across lines', () => {
+		const lines = tokenizeLines(['x = 1; /* start', 'still comment', 'end */ y'], 'typescript');
+		assert.deepStrictEqual(types(lines[1]), ['comment:still comment']);
+		assert.deepStrictEqual(types(lines[2]), ['comment:end */']);
+	});
+
+	test('# is the preprocessor in C and a comment in Python', () => {
+		assert.deepStrictEqual(types(tokenizeLines(['#include <stdio.h>'], 'c')[0]), ['preprocessor:#include']);
+		assert.deepStrictEqual(types(tokenizeLines(['x = Foo() # note'], 'python')[0]), ['function:Foo', 'comment:# note']);
+	});
+});
@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { History } from '../shared/core/History';
+
+suite('History Test Suite', () => {
+
+	const entry = (n: number) => ({ value: n, label: `root${n}` });
+
+	test('push should skip duplicates of the current entry', () => {
+		const history = new History<number>((a, b) => a === b);
+		history.push(entry(1));
+		history.push(entry(1));
+		assert.strictEqual(history.canGoBack, false);
+		history.push(entry(2));
+		assert.strictEqual(history.canGoBack, true);
+	});
+
+	test('push after going back should drop forward entries', () => {
+		const history = new History<number>((a, b) => a === b);
+		[1, 2, 3].forEach(n => history.push(entry(n)));
+		assert.strictEqual(history.move(-1)?.value, 2);
+		assert.strictEqual(history.canGoForward, true);
+		history.push(entry(4));
+		assert.strictEqual(history.canGoForward, false);
+		assert.strictEqual(history.peek(-1)?.value, 2);
+	});
+
+	test('capacity should drop the oldest entries', () => {
+		const history = new History<number>((a, b) => a === b, 3);
+		[1, 2, 3, 4].forEach(n => history.push(entry(n)));
+		history.move(-1);
+		history.move(-1);
+		assert.strictEqual(history.current?.value, 2);
+		assert.strictEqual(history.canGoBack, false);
+	});
+
+	test('removeAt should drop the invalid entry and keep the current one', () => {
+		const history = new History<number>((a, b) => a === b);
+		[1, 2, 3].forEach(n => history.push(entry(n)));
+		history.removeAt(-1);
+		assert.strictEqual(history.current?.value, 3);
+		assert.strictEqual(history.peek(-1)?.value, 1);
+
+		history.move(-1);
+		history.removeAt(1);
+		assert.strictEqual(history.current?.value, 1);
+		assert.strictEqual(history.canGoForward, false);
+	});
+
+	test('snapshot and restore should keep entries and position', () => {
+		const history = new History<number>((a, b) => a === b);
+		[1, 2, 3].forEach(n => history.push(entry(n)));
+		history.moveTo(0);
+		const restored = new History<number>((a, b) => a === b, 2);
+		restored.restore(JSON.parse(JSON.stringify(history.snapshot())));
+		assert.deepStrictEqual(restored.getEntries().map(e => e.value), [2, 3]);
+		assert.strictEqual(restored.position, 0);
+		assert.strictEqual(restored.canGoForward, true);
+	});
+});
@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import { globToRegExp, matchesFilters, parseQuery, toPathGlob } from '../shared/query';
+
+suite('Search Query Test Suite', () => {
+
+	test('should split keywords and filter tokens', () => {
+		const parsed = parseQuery('init kind:function,struct in:Driver file:drivers/*.c -test /_probe$/i');
+		assert.deepStrictEqual(parsed.keywords, ['init']);
+		assert.deepStrictEqual(parsed.kinds, [11, 22]);
+		assert.deepStrictEqual(parsed.containers, ['Driver']);
+		assert.deepStrictEqual(parsed.files, ['*drivers/*.c']);
+		assert.deepStrictEqual(parsed.excludes, ['test']);
+		assert.strictEqual(parsed.regexes[0].source, '_probe$');
+		assert.strictEqual(parsed.regexes[0].flags, 'i');
+	});
+
+	test('should keep unknown kinds, invalid regexes and a lone dash as keywords', () => {
+		const parsed = parseQuery('kind:widget /[/ -');
+		assert.deepStrictEqual(parsed.keywords, ['kind:widget', '/[/', '-']);
+		assert.deepStrictEqual(parseQuery('kind:func').kinds, [11]);
+	});
+
+	test('file globs should follow SQLite GLOB rules', () => {
+		assert.strictEqual(toPathGlob('drivers'), '*drivers*');
+		assert.strictEqual(toPathGlob('src\\*.ts'), '*src/*.ts');
+		assert.ok(globToRegExp('*drivers/*.c').test('/home/me/linux/drivers/net/eth.c'));
+		assert.ok(!globToRegExp('*drivers/*.c').test('/home/me/linux/drivers/net/eth.h'));
+		assert.ok(globToRegExp('*[ab].c').test('/x/a.c'));
+	});
+
+	test('matchesFilters should apply every filter', () => {
+		const parsed = parseQuery('kind:function in:driver file:drivers -test /^eth_/');
+		const target = { name: 'eth_init', kind: 11, container: 'EthDriver', path: '/linux/drivers/eth.c' };
+		assert.strictEqual(matchesFilters(parsed, target), true);
+		assert.strictEqual(matchesFilters(parsed, { ...target, kind: 5 }), false);
+		assert.strictEqual(matchesFilters(parsed, { ...target, container: 'Bus' }), false);
+		assert.strictEqual(matchesFilters(parsed, { ...target, path: '/linux/fs/eth.c' }), false);
+		assert.strictEqual(matchesFilters(parsed, { ...target, name: 'eth_test_init' }), false);
+		assert.strictEqual(matchesFilters(parsed, { ...target, name: 'init_eth' }), false);
+		// Unknown path (current document): file filters are skipped
+		assert.strictEqual(matchesFilters(parsed, { ...target, path: undefined }), true);
+	});
+});
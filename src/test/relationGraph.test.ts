@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { CallGraphBuilder, formatGraph } from '../features/relation/RelationGraph';
+
+suite('RelationGraph Test Suite', () => {
+
+	const node = (name: string) => ({
+		name,
+		kind: 11,
+		kindName: 'Function',
+		uri: `file:///src/${name}.ts`,
+		range: { start: { line: 0, character: 0 }, end: { line: 0, character: name.length } }
+	});
+
+	const buildSample = () => {
+		const builder = new CallGraphBuilder();
+		const main = builder.addNode('main', node('main'));
+		const helper = builder.addNode('helper', node('say "hi"'));
+		builder.addEdge(main, helper, 1);
+		builder.addEdge(main, helper, 1);
+		// Recursion: the same key maps to the same node
+		builder.addEdge(helper, builder.addNode('helper', node('ignored')), 1);
+		return builder.build(main, 'outgoing', 2);
+	};
+
+	test('builder should dedupe nodes by key and merge call sites', () => {
+		const graph = buildSample();
+		assert.strictEqual(graph.nodes.length, 2);
+		assert.strictEqual(graph.nodes[1].name, 'say "hi"');
+		assert.deepStrictEqual(graph.edges, [
+			{ from: 'n0', to: 'n1', callSites: 2 },
+			{ from: 'n1', to: 'n1', callSites: 1 }
+		]);
+	});
+
+	test('mermaid output should escape quotes and label multiple call sites', () => {
+		const output = formatGraph(buildSample(), 'mermaid');
+		assert.ok(output.startsWith('flowchart LR\n'));
+		assert.ok(output.includes('n1["say #quot;hi#quot;"]'));
+		assert.ok(output.includes('n0 -->|2| n1'));
+		assert.ok(output.includes('n1 --> n1'));
+	});
+
+	test('dot output should escape quotes and mark the root', () => {
+		const output = formatGraph(buildSample(), 'dot');
+		assert.ok(output.startsWith('digraph CallGraph {'));
+		assert.ok(output.includes('label="say \\"hi\\""'));
+		assert.ok(output.includes('n0 [label="main", tooltip="file:///src/main.ts", style=bold];'));
+		assert.ok(output.includes('n0 -> n1 [label="2"];'));
+	});
+
+	test('json output should carry uri, range and kind', () => {
+		const parsed = JSON.parse(formatGraph(buildSample(), 'json'));
+		assert.strictEqual(parsed.root, 'n0');
+		assert.strictEqual(parsed.depth, 2);
+		assert.strictEqual(parsed.nodes[0].uri, 'file:///src/main.ts');
+		assert.strictEqual(parsed.nodes[0].kindName, 'Function');
+		assert.deepStrictEqual(parsed.nodes[0].range.end, { line: 0, character: 4 });
+	});
+});
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { findEnclosingSymbol, isDeclarationOf } from '../features/relation/RelationHeuristics';
+import type { SymbolRecord } from '../shared/db/database';
+
+suite('RelationHeuristics Test Suite', () => {
+
+	const symbol = (id: number, name: string, startLine: number, endLine: number): SymbolRecord => ({
+		id,
+		file_id: 1,
+		name,
+		detail: '',
+		kind: 11,
+		range_start_line: startLine,
+		range_start_char: 0,
+		range_end_line: endLine,
+		range_end_char: 1,
+		selection_range_start_line: startLine,
+		selection_range_start_char: 5,
+		selection_range_end_line: startLine,
+		selection_range_end_char: 5 + name.length,
+		container_name: ''
+	});
+
+	const symbols = [
+		symbol(1, 'outer', 10, 40),
+		symbol(2, 'inner', 20, 25),
+		symbol(3, 'other', 50, 60)
+	];
+
+	test('findEnclosingSymbol should return the innermost function', () => {
+		assert.strictEqual(findEnclosingSymbol(symbols, 22)?.name, 'inner');
+		assert.strictEqual(findEnclosingSymbol(symbols, 30)?.name, 'outer');
+		assert.strictEqual(findEnclosingSymbol(symbols, 60)?.name, 'other');
+	});
+
+	test('findEnclosingSymbol should skip occurrences outside any function', () => {
+		assert.strictEqual(findEnclosingSymbol(symbols, 5), undefined);
+		assert.strictEqual(findEnclosingSymbol(symbols, 45), undefined);
+	});
+
+	test('isDeclarationOf should only match the declaration line of the same name', () => {
+		assert.strictEqual(isDeclarationOf(symbols[1], 'inner', 20), true);
+		assert.strictEqual(isDeclarationOf(symbols[1], 'inner', 21), false);
+		assert.strictEqual(isDeclarationOf(symbols[0], 'inner', 10), false);
+	});
+});
@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { findCallPaths } from '../features/relation/RelationPaths';
+
+suite('RelationPaths Test Suite', () => {
+
+	// isr -> a -> c -> target, isr -> b -> c, b -> target, c -> c (recursion), a -> isr (cycle)
+	const graph: Record<string, string[]> = {
+		isr: ['a', 'b'],
+		a: ['c', 'isr'],
+		b: ['c', 'target'],
+		c: ['c', 'target'],
+		target: []
+	};
+	const getCallees = async (node: string) => graph[node] || [];
+	const key = (node: string) => node;
+
+	test('should return every shortest path', async () => {
+		const result = await findCallPaths('isr', 'target', key, getCallees, { maxDepth: 5, maxNodes: 100 });
+		assert.deepStrictEqual(result.paths, [['isr', 'b', 'target']]);
+		assert.strictEqual(result.truncated, false);
+	});
+
+	test('should collect multiple paths of the same length', async () => {
+		const result = await findCallPaths('isr', 'c', key, getCallees, { maxDepth: 5, maxNodes: 100 });
+		assert.deepStrictEqual(result.paths, [['isr', 'a', 'c'], ['isr', 'b', 'c']]);
+	});
+
+	test('should stop at the depth limit', async () => {
+		const result = await findCallPaths('isr', 'target', key, getCallees, { maxDepth: 1, maxNodes: 100 });
+		assert.deepStrictEqual(result.paths, []);
+	});
+
+	test('should report a truncated search when the node budget runs out', async () => {
+		const result = await findCallPaths('isr', 'target', key, getCallees, { maxDepth: 5, maxNodes: 2 });
+		assert.deepStrictEqual(result.paths, []);
+		assert.strictEqual(result.truncated, true);
+	});
+});
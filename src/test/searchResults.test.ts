@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { formatSearchEditorResults } from '../features/symbol/SearchResults';
+
+suite('Search Results Test Suite', () => {
+
+	test('should group rows by file in Search Editor format', () => {
+		const text = formatSearchEditorResults('init', [
+			{ path: 'src/b.c', line: 40, text: '\tint init_bus(void)' },
+			{ path: 'src/a.c', line: 9, text: 'void init(void)' },
+			{ path: 'src/b.c', line: 2, text: 'static int init_done;' }
+		]);
+		assert.strictEqual(text, [
+			'# Query: init',
+			'',
+			'3 results - 2 files',
+			'',
+			'src/b.c:',
+			'  3: static int init_done;',
+			'  41: int init_bus(void)',
+			'',
+			'src/a.c:',
+			'  10: void init(void)',
+			''
+		].join('\n'));
+	});
+
+	test('should list a line once', () => {
+		const text = formatSearchEditorResults('x', [
+			{ path: 'a.ts', line: 0, text: 'let x, y;' },
+			{ path: 'a.ts', line: 0, text: 'let x, y;' }
+		]);
+		assert.strictEqual(text.split('\n').filter(l => l.startsWith('  1:')).length, 1);
+	});
+});
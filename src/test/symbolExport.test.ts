@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { ExportSymbol, formatSymbols, SymbolExportFormatter } from '../features/symbol/SymbolExport';
+
+suite('Symbol Export Test Suite', () => {
+
+	const symbol = (name: string, line: number, container = ''): ExportSymbol => ({
+		name,
+		kindName: 'Function',
+		container,
+		path: 'src/drv.c',
+		line: line + 1,
+		range: { start: { line, character: 0 }, end: { line: line + 3, character: 1 } },
+		selectionRange: { start: { line, character: 4 }, end: { line, character: 4 + name.length } }
+	});
+
+	test('JSON should keep every field', () => {
+		const parsed = JSON.parse(formatSymbols([symbol('probe', 9, 'Driver')], 'json'));
+		assert.strictEqual(parsed.length, 1);
+		assert.strictEqual(parsed[0].container, 'Driver');
+		assert.strictEqual(parsed[0].line, 10);
+		assert.deepStrictEqual(parsed[0].selectionRange.end, { line: 9, character: 9 });
+		assert.deepStrictEqual(JSON.parse(formatSymbols([], 'json')), []);
+	});
+
+	test('CSV should quote fields with separators', () => {
+		const lines = formatSymbols([symbol('operator,', 0, 'Map<"K", V>')], 'csv').split('\r\n');
+		assert.ok(lines[0].startsWith('name,kind,container,file,line,'));
+		assert.strictEqual(lines[1], '"operator,",Function,"Map<""K"", V>",src/drv.c,1,0,0,3,1,0,4,0,13');
+	});
+
+	test('tags should use the line as address', () => {
+		const text = formatSymbols([symbol('remove', 20), symbol('probe', 9, 'Driver')], 'tags');
+		assert.strictEqual(text, [
+			'!_TAG_FILE_SORTED\t0\t/0=unsorted, 1=sorted, 2=foldcase/',
+			'remove\tsrc/drv.c\t21;"\tkind:function',
+			'probe\tsrc/drv.c\t10;"\tkind:function\tcontainer:Driver',
+			''
+		].join('\n'));
+	});
+
+	test('chunks should join into one valid document', () => {
+		const formatter = new SymbolExportFormatter('json');
+		const text = formatter.begin() + formatter.format([symbol('probe', 9)]) + formatter.format([]) + formatter.format([symbol('remove', 20)]) + formatter.end();
+		assert.deepStrictEqual(JSON.parse(text).map((s: ExportSymbol) => s.name), ['probe', 'remove']);
+	});
+});
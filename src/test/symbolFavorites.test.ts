@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { findFavoriteSymbol, isSameFavorite } from '../features/symbol/SymbolFavorites';
+import { FavoriteSymbol, SymbolItem } from '../shared/types';
+
+function symbol(name: string, kind: number, line: number, children: SymbolItem[] = []): SymbolItem {
+	return { name, detail: '', kind, range: null, selectionRange: { line }, children };
+}
+
+suite('Symbol Favorites Test Suite', () => {
+
+	const tree = [
+		symbol('Parser', 4, 0, [symbol('parse', 5, 2)]),
+		symbol('Lexer', 4, 10, [symbol('parse', 5, 12)]),
+		symbol('parse', 11, 20)
+	];
+
+	test('should prefer the symbol in the same container', () => {
+		const favorite: FavoriteSymbol = { path: '/src/a.ts', name: 'parse', containerName: 'Lexer', kind: 5 };
+		assert.strictEqual(findFavoriteSymbol(tree, favorite)?.selectionRange.line, 12);
+		assert.strictEqual(findFavoriteSymbol(tree, { ...favorite, containerName: undefined, kind: 11 })?.selectionRange.line, 20);
+	});
+
+	test('should fall back to name and kind when the container changed', () => {
+		const favorite: FavoriteSymbol = { path: '/src/a.ts', name: 'parse', containerName: 'Tokenizer', kind: 5 };
+		assert.strictEqual(findFavoriteSymbol(tree, favorite)?.selectionRange.line, 2);
+		assert.strictEqual(findFavoriteSymbol(tree, { ...favorite, name: 'render' }), undefined);
+	});
+
+	test('isSameFavorite should treat a missing container as empty', () => {
+		const favorite: FavoriteSymbol = { path: '/src/a.ts', name: 'parse', kind: 11 };
+		assert.ok(isSameFavorite(favorite, { ...favorite, containerName: '' }));
+		assert.ok(!isSameFavorite(favorite, { ...favorite, path: '/src/b.ts' }));
+	});
+});
@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import { SymbolFrecency } from '../features/symbol/SymbolFrecency';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+suite('Symbol Frecency Test Suite', () => {
+
+	test('frequent and recent jumps should weigh more', () => {
+		const frecency = new SymbolFrecency();
+		frecency.record('/src/a.c', 'init', 0);
+		frecency.record('/src/a.c', 'init', 0);
+		frecency.record('/src/a.c', 'init', 0);
+		frecency.record('/src/b.c', 'init', 0);
+
+		assert.ok(frecency.getWeight('/src/a.c', 'init', 0) > frecency.getWeight('/src/b.c', 'init', 0));
+		assert.strictEqual(frecency.getWeight('/src/c.c', 'init', 0), 0);
+		// Halves every two weeks
+		assert.ok(frecency.getWeight('/src/a.c', 'init', 28 * DAY) < frecency.getWeight('/src/a.c', 'init', 0));
+		assert.ok(frecency.getWeight('/src/a.c', 'init', 1000 * DAY) < 0.01);
+	});
+
+	test('weights should be capped at 1', () => {
+		const frecency = new SymbolFrecency();
+		for (let i = 0; i < 100; i++) {
+			frecency.record('/src/a.c', 'main', 0);
+		}
+		assert.strictEqual(frecency.getWeight('/src/a.c', 'main', 0), 1);
+	});
+
+	test('should restore saved entries and list the hottest first', () => {
+		const frecency = new SymbolFrecency();
+		frecency.record('/src/a.c', 'cold', 0);
+		frecency.record('/src/a.c', 'hot', DAY);
+		frecency.record('/src/a.c', 'hot', DAY);
+
+		const restored = new SymbolFrecency(JSON.parse(JSON.stringify(frecency)));
+		assert.deepStrictEqual(restored.getTopWeights(1, DAY).map(e => e.name), ['hot']);
+
+		restored.clear();
+		assert.deepStrictEqual(restored.getTopWeights(10), []);
+	});
+
+	test('should key symbols by their base name', () => {
+		const frecency = new SymbolFrecency();
+		frecency.record('/src/a.c', 'config (struct)', 0);
+		frecency.record('/src/a.c', 'config', 0);
+		assert.strictEqual(frecency.toJSON().length, 1);
+		assert.strictEqual(frecency.getTopWeights(1, 0)[0].name, 'config');
+		assert.strictEqual(frecency.getWeight('/src/a.c', 'config', 0), frecency.getWeight('/src/a.c', 'config (struct)', 0));
+	});
+});
@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import { flattenSymbols, getVisibleRange } from '../webview/features/symbol/treeRows';
+import { SymbolItem } from '../shared/types';
+
+function symbol(name: string, children: SymbolItem[] = []): SymbolItem {
+	return { name, detail: '', kind: 4, range: null, selectionRange: null, children };
+}
+
+suite('Symbol Tree Rows Test Suite', () => {
+
+	test('should only list the children of expanded symbols', () => {
+		const tree = [
+			symbol('A', [symbol('a1'), symbol('a2', [symbol('a2x')])]),
+			symbol('B', [symbol('b1')])
+		];
+		const rows = flattenSymbols(tree, s => s.name !== 'B');
+		assert.deepStrictEqual(rows.map(r => `${r.depth}:${r.symbol.name}`), ['0:A', '1:a1', '1:a2', '2:a2x', '0:B']);
+		assert.strictEqual(rows[2].parentName, 'A');
+		assert.strictEqual(rows[4].expanded, false);
+		assert.strictEqual(rows[1].hasChildren, false);
+	});
+
+	test('should flatten 100k rows', () => {
+		const tree = Array.from({ length: 1000 }, (_, i) => symbol(`s${i}`, Array.from({ length: 99 }, (_, j) => symbol(`m${j}`))));
+		assert.strictEqual(flattenSymbols(tree, () => true).length, 100000);
+	});
+
+	test('visible range should include the overscan and stay in bounds', () => {
+		assert.deepStrictEqual(getVisibleRange(0, 220, 22, 1000, 5), { start: 0, end: 15 });
+		assert.deepStrictEqual(getVisibleRange(2200, 220, 22, 1000, 5), { start: 95, end: 115 });
+		assert.deepStrictEqual(getVisibleRange(21900, 220, 22, 1000, 5), { start: 990, end: 1000 });
+	});
+});
@@ -1,17 +1,25 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { SymbolItem, SymbolMode, WebviewMessage, Message } from '../shared/types';
-import SymbolTree from './features/symbol/SymbolTree';
+import React, { useState, useEffect, useRef } from 'react';
+import { SymbolItem, SymbolMode, WebviewMessage, Message, NavigationEntry, FavoriteSymbol, CodePreview } from '../shared/types';
+import { matchKeywords, sortSymbolsByRelevance } from '../shared/fuzzy';
+import { matchesFilters, parseQuery } from '../shared/query';
+import SymbolTree, { findSymbolPath } from './features/symbol/SymbolTree';
+import KindFilterBar, { getFilterKinds } from './features/symbol/KindFilterBar';
+import HistoryList from './features/symbol/HistoryList';
+import FavoritesList from './features/symbol/FavoritesList';
+import { getUriPath, groupSymbolsByFile } from './features/symbol/groupSymbols';
+import CodePreviewPane from './features/symbol/CodePreviewPane';
+import { vscode } from './vscodeApi';
 import './style.css';
 
-// Acquire VS Code API
-const vscode = acquireVsCodeApi();
-
 const App: React.FC = () => {
     const savedState = vscode.getState() || {};
     const [mode, setMode] = useState<SymbolMode>(savedState.mode || 'current');
     const searchInputRef = useRef<any>(null);
+    const treeContainerRef = useRef<HTMLDivElement>(null);
     const [query, setQuery] = useState(savedState.query || '');
     const [symbols, setSymbols] = useState<SymbolItem[]>(savedState.symbols || []);
+    // Document the current-mode outline belongs to (its symbols carry no uri)
+    const [symbolsUri, setSymbolsUri] = useState<string | undefined>(undefined);
     const [totalCount, setTotalCount] = useState<number>(savedState.totalCount || 0);
     const [hasResults, setHasResults] = useState<boolean>(savedState.hasResults || false);
     const [selectedSymbol, setSelectedSymbol] = useState<SymbolItem | null>(null);
@@ -25,12 +33,30 @@ const App: React.FC = () => {
     const [showDetails, setShowDetails] = useState(savedState.showDetails || false);
     const [indexingProgress, setIndexingProgress] = useState<number | null>(null);
     const [isDatabaseMode, setIsDatabaseMode] = useState(savedState.isDatabaseMode || false);
+    const [kindFilters, setKindFilters] = useState<string[]>(savedState.kindFilters || []);
+    const [historyEntries, setHistoryEntries] = useState<NavigationEntry[]>([]);
+    const [historyIndex, setHistoryIndex] = useState(-1);
+    const [showHistory, setShowHistory] = useState<boolean>(savedState.showHistory || false);
+    const [favorites, setFavorites] = useState<FavoriteSymbol[]>([]);
+    const [showFavorites, setShowFavorites] = useState<boolean>(savedState.showFavorites ?? true);
+    const [groupByFile, setGroupByFile] = useState<boolean>(savedState.groupByFile || false);
+    const [showPreview, setShowPreview] = useState<boolean>(savedState.showPreview ?? true);
+    const [preview, setPreview] = useState<CodePreview | undefined>(undefined);
+    // Id of the latest preview request; older answers are ignored
+    const previewRequestRef = useRef(0);
+    // Ancestors of the symbol under the editor cursor, expanded by follow cursor
+    const [revealedSymbols, setRevealedSymbols] = useState<Set<SymbolItem> | undefined>(undefined);
 
     // Refs for accessing state in event listener
     const modeRef = useRef(mode);
     const queryRef = useRef(query);
     const includePatternRef = useRef(includePattern);
     const symbolsRef = useRef(symbols);
+    const kindFiltersRef = useRef(kindFilters);
+    const displaySymbolsRef = useRef<SymbolItem[]>([]);
+    const displayUriRef = useRef<string | undefined>(undefined);
+    // Folder and file groups of the current query, reused across pages to keep their expand state
+    const groupCacheRef = useRef({ query: '', groups: new Map<string, SymbolItem>() });
     const lastSearchQueryRef = useRef<string>(savedState.lastSearchQuery || savedState.query || '');
     const lastSearchPatternRef = useRef<string>(savedState.lastSearchPattern || savedState.includePattern || '');
 
@@ -38,6 +64,7 @@ const App: React.FC = () => {
     useEffect(() => { queryRef.current = query; }, [query]);
     useEffect(() => { includePatternRef.current = includePattern; }, [includePattern]);
     useEffect(() => { symbolsRef.current = symbols; }, [symbols]);
+    useEffect(() => { kindFiltersRef.current = kindFilters; }, [kindFilters]);
 
     // Save state
     useEffect(() => {
@@ -47,13 +74,18 @@ const App: React.FC = () => {
             showDetails, 
             includePattern, 
             isDatabaseMode,
+            kindFilters,
+            showHistory,
+            showFavorites,
+            groupByFile,
+            showPreview,
             symbols,
             totalCount,
             hasResults,
             lastSearchQuery: lastSearchQueryRef.current,
             lastSearchPattern: lastSearchPatternRef.current
         });
-    }, [mode, query, showDetails, includePattern, isDatabaseMode, symbols, totalCount, hasResults]);
+    }, [mode, query, showDetails, includePattern, isDatabaseMode, kindFilters, showHistory, showFavorites, groupByFile, showPreview, symbols, totalCount, hasResults]);
 
     // Handle messages from extension
     useEffect(() => {
@@ -62,6 +94,7 @@ const App: React.FC = () => {
             switch (message.command) {
                 case 'updateSymbols':
                     setSymbols(message.symbols);
+                    setSymbolsUri(message.uri);
                     if (message.totalCount !== undefined) {
                         setTotalCount(message.totalCount);
                     }
@@ -78,6 +111,7 @@ const App: React.FC = () => {
                         setQuery(''); // Clear query on mode toggle
                         setSymbols([]);
                         setHasResults(false);
+                        setPreview(undefined);
                         lastSearchQueryRef.current = '';
                         lastSearchPatternRef.current = '';
                         // Don't auto-set status here, rely on backend 'status' message
@@ -106,13 +140,38 @@ const App: React.FC = () => {
                         if (queryChanged || patternChanged || hasNoResults) {
                             lastSearchQueryRef.current = queryRef.current;
                             lastSearchPatternRef.current = includePatternRef.current;
-                            vscode.postMessage({ command: 'search', query: queryRef.current, includePattern: includePatternRef.current });
+                            vscode.postMessage({ command: 'search', query: queryRef.current, includePattern: includePatternRef.current, kinds: getFilterKinds(kindFiltersRef.current) });
                         }
                         // Otherwise, keep existing results "sticky" - don't re-trigger search
                     }
                     break;
-                case 'highlight':
-                    // TODO: Implement highlight logic (expand tree and select)
+                case 'highlight': {
+                    // Follow cursor (current mode): select the innermost symbol containing the cursor
+                    if (modeRef.current !== 'current') {
+                        break;
+                    }
+                    // After an editor switch the highlight can arrive before the new outline: never resolve it in another document
+                    if (message.uri !== displayUriRef.current) {
+                        break;
+                    }
+                    const path = findSymbolPath(displaySymbolsRef.current, message.uri, message.range[0]);
+                    if (path.length > 0) {
+                        setRevealedSymbols(new Set(path.slice(0, -1)));
+                        setSelectedSymbol(path[path.length - 1]);
+                    }
+                    break;
+                }
+                case 'updateHistory':
+                    setHistoryEntries(message.entries);
+                    setHistoryIndex(message.index);
+                    break;
+                case 'showPreview':
+                    if (message.requestId === previewRequestRef.current) {
+                        setPreview(message.preview);
+                    }
+                    break;
+                case 'updateFavorites':
+                    setFavorites(message.favorites);
                     break;
                 case 'setScope':
                     setScopePath(message.scopePath);
@@ -190,7 +249,7 @@ const App: React.FC = () => {
             // Spec says "Triggered only when the user types".
             // Let's send every keystroke and let backend debounce.
             lastSearchQueryRef.current = newQuery;
-            vscode.postMessage({ command: 'search', query: newQuery, includePattern: includePatternRef.current });
+            vscode.postMessage({ command: 'search', query: newQuery, includePattern: includePatternRef.current, kinds: getFilterKinds(kindFilters) });
         }
     };
 
@@ -200,7 +259,7 @@ const App: React.FC = () => {
         
         if (mode === 'project' && query) {
             lastSearchPatternRef.current = newPattern;
-            vscode.postMessage({ command: 'search', query: query, includePattern: newPattern });
+            vscode.postMessage({ command: 'search', query: query, includePattern: newPattern, kinds: getFilterKinds(kindFilters) });
         }
     };
 
@@ -209,36 +268,44 @@ const App: React.FC = () => {
             e.preventDefault();
             setIncludePattern('');
             if (mode === 'project' && query) {
-                vscode.postMessage({ command: 'search', query: query, includePattern: '' });
+                vscode.postMessage({ command: 'search', query: query, includePattern: '', kinds: getFilterKinds(kindFilters) });
             }
         }
     };
 
+    const handleKindFiltersChange = (selected: string[]) => {
+        setKindFilters(selected);
+
+        // Current mode re-filters on render; project mode searches again (pushed down to SQL in database mode)
+        if (mode === 'project' && query) {
+            vscode.postMessage({ command: 'search', query: query, includePattern: includePattern, kinds: getFilterKinds(selected) });
+        }
+    };
+
     // Handle jump
     const handleJump = (symbol: SymbolItem) => {
+        if (symbol.group) {
+            return;
+        }
         vscode.postMessage({ 
             command: 'jump', 
             uri: symbol.uri, 
-            range: symbol.selectionRange 
+            range: symbol.selectionRange,
+            name: symbol.name
         });
     };
 
     // Handle selection
     const handleSelect = (symbol: SymbolItem) => {
         setSelectedSymbol(symbol);
-        
-        // Debug: Log to webview console
-        console.log('[Webview] handleSelect called', { mode, symbolName: symbol.name, hasUri: !!symbol.uri, hasSelectionRange: !!symbol.selectionRange });
-        
-        // If in project mode (first window), log to debug console
-        if (mode === 'project' && symbol.uri && symbol.selectionRange) {
-            const lineNumber = symbol.selectionRange[0].line;
-            console.log('[Webview] Sending logSelection message', { symbolName: symbol.name, uri: symbol.uri, line: lineNumber });
-            vscode.postMessage({ 
-                command: 'logSelection', 
-                symbolName: symbol.name,
-                uri: symbol.uri, 
-                line: lineNumber
+
+        if (showPreview && !symbol.group && (symbol.range || symbol.selectionRange)) {
+            previewRequestRef.current++;
+            vscode.postMessage({
+                command: 'preview',
+                requestId: previewRequestRef.current,
+                uri: symbol.uri,
+                range: symbol.range || symbol.selectionRange
             });
         }
     };
@@ -255,37 +322,13 @@ const App: React.FC = () => {
                 if (queryRef.current.length > 0) {
                     e.preventDefault();
                     setQuery('');
-                    vscode.postMessage({ command: 'search', query: '', includePattern: includePatternRef.current });
+                    vscode.postMessage({ command: 'search', query: '', includePattern: includePatternRef.current, kinds: getFilterKinds(kindFiltersRef.current) });
                 }
                 return;
             }
 
-            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
-                e.preventDefault();
-                const selectedEl = document.querySelector('.symbol-item.selected');
-                const allItems = Array.from(document.querySelectorAll('.symbol-item'));
-                
-                if (allItems.length === 0) return;
-
-                let nextIndex = 0;
-                if (selectedEl) {
-                    const currentIndex = allItems.indexOf(selectedEl);
-                    if (e.key === 'ArrowDown') {
-                        nextIndex = Math.min(currentIndex + 1, allItems.length - 1);
-                    } else {
-                        nextIndex = Math.max(currentIndex - 1, 0);
-                    }
-                } else {
-                    // If nothing selected, select first
-                    nextIndex = 0;
-                }
-
-                const nextEl = allItems[nextIndex] as HTMLElement;
-                if (nextEl) {
-                    nextEl.click();
-                    nextEl.scrollIntoView({ block: 'nearest' });
-                }
-            } else if (e.key === 'Enter') {
+            // ArrowUp / ArrowDown are handled by SymbolTree, which knows the rows that are not rendered
+            if (e.key === 'Enter') {
                 if (selectedSymbol) {
                     handleJump(selectedSymbol);
                 }
@@ -296,77 +339,46 @@ const App: React.FC = () => {
         return () => window.removeEventListener('keydown', handleKeyDown);
     }, [selectedSymbol]);
 
-    // Sort symbols by relevance (prefix match first, then alphabetically)
-    const sortSymbolsByRelevance = useCallback((symbols: SymbolItem[], query: string): SymbolItem[] => {
-        const lowerQuery = query.toLowerCase();
-        const keywords = lowerQuery.split(/\s+/).filter((k: string) => k.length > 0);
-        
-        // If no query, sort alphabetically only
-        if (keywords.length === 0) {
-            return symbols.sort((a, b) => a.name.localeCompare(b.name));
-        }
-        
-        // Calculate relevance score for each symbol
-        const scoredSymbols = symbols.map(symbol => {
-            const lowerName = symbol.name.toLowerCase();
-            let score = 0;
-            
-            // Check how close the first letters match each keyword
-            for (const keyword of keywords) {
-                const index = lowerName.indexOf(keyword);
-                if (index !== -1) {
-                    // Lower index = better match (closer to start)
-                    // Prefix match (index === 0) gets highest score
-                    if (index === 0) {
-                        score += 1000; // Prefix match bonus
-                    } else {
-                        // The closer to the start, the higher the score
-                        score += Math.max(0, 100 - index);
-                    }
-                }
-            }
-            
-            return { symbol, score };
-        });
-        
-        // Sort by score (descending), then alphabetically by name
-        return scoredSymbols
-            .sort((a, b) => {
-                if (b.score !== a.score) {
-                    return b.score - a.score;
-                }
-                return a.symbol.name.localeCompare(b.symbol.name);
-            })
-            .map(item => item.symbol);
-    }, []);
-
     // Filter symbols for Current Mode (Client-side)
     const displaySymbols = React.useMemo(() => {
         if (mode === 'project') {
-            return symbols; // Backend handles filtering
+            // Backend handles filtering
+            if (!groupByFile) {
+                return symbols;
+            }
+            if (groupCacheRef.current.query !== query) {
+                groupCacheRef.current = { query, groups: new Map() };
+            }
+            return groupSymbolsByFile(symbols, groupCacheRef.current.groups);
         }
         
-        if (!query) return symbols;
+        const activeKinds = getFilterKinds(kindFilters);
+        if (!query && activeKinds.length === 0) return symbols;
 
-        const lowerQuery = query.toLowerCase();
-        const keywords = lowerQuery.split(/\s+/).filter((k: string) => k.length > 0);
+        // Keywords plus filter tokens (kind:, in:, file:, -term, /regex/); the parent symbol is the container for in:
+        const parsed = parseQuery(query);
+        const keywords = parsed.keywords;
 
-        const filterTree = (items: SymbolItem[]): SymbolItem[] => {
+        const filterTree = (items: SymbolItem[], parentName?: string): SymbolItem[] => {
             const result: SymbolItem[] = [];
             for (const item of items) {
-                const match = keywords.every((k: string) => item.name.toLowerCase().includes(k));
+                const path = item.uri ? getUriPath(item.uri) : undefined;
+                const match = matchKeywords(keywords, item.name);
+                
+                const kindAllowed = activeKinds.length === 0 || activeKinds.includes(item.kind);
                 
-                if (match) {
+                if (match && kindAllowed && matchesFilters(parsed, { name: item.name, kind: item.kind, container: parentName, path })) {
                     // If parent matches, include it and ALL its original children (no filtering on children)
                     // This allows users to expand the result and see members
                     // We don't force expand here, so user sees the match but not necessarily all children immediately
                     result.push({
                         ...item,
+                        matches: match.positions,
                         autoExpand: false
                     });
                 } else {
                     // If parent doesn't match, check children
-                    const filteredChildren = item.children ? filterTree(item.children) : [];
+                    const filteredChildren = item.children ? filterTree(item.children, item.name) : [];
                     
                     if (filteredChildren.length > 0) {
                         result.push({
@@ -381,14 +393,23 @@ const App: React.FC = () => {
         };
 
         const filtered = filterTree(symbols);
+        // Only filters (kind chips, kind: / in: tokens): keep the outline in document order
+        if (keywords.length === 0) {
+            return filtered;
+        }
         // Sort the filtered results by relevance
-        return sortSymbolsByRelevance(filtered, query);
-    }, [symbols, query, mode, sortSymbolsByRelevance]);
+        return sortSymbolsByRelevance(filtered, keywords);
+    }, [symbols, query, mode, kindFilters, groupByFile]);
+
+    useEffect(() => {
+        displaySymbolsRef.current = displaySymbols;
+        displayUriRef.current = symbolsUri;
+    }, [displaySymbols, symbolsUri]);
 
     // Auto-load more if content doesn't fill container
     useEffect(() => {
         if (mode === 'project' && symbols.length > 0 && symbols.length < totalCount) {
-            const container = document.querySelector('.tree-container');
+            const container = treeContainerRef.current;
             if (container && container.scrollHeight <= container.clientHeight) {
                 vscode.postMessage({ command: 'loadMore' });
             }
@@ -423,7 +444,27 @@ const App: React.FC = () => {
             <div className="search-container">
                 <div className="mode-indicator">
                     {mode === 'current' ? 'Current Document' : (isDatabaseMode ? 'Project Workspace (Database)' : 'Project Workspace')}
+                    <span
+                        className={`codicon codicon-open-preview action-icon mode-action ${showPreview ? 'active' : ''}`}
+                        title={showPreview ? 'Hide Code Preview' : 'Show Code Preview'}
+                        onClick={() => {
+                            setShowPreview(!showPreview);
+                            setPreview(undefined);
+                        }}
+                    ></span>
+                    {mode === 'project' && (
+                        <span
+                            className={`codicon ${groupByFile ? 'codicon-list-flat' : 'codicon-list-tree'} action-icon mode-action`}
+                            title={groupByFile ? 'Show as List' : 'Group by Folder and File'}
+                            onClick={() => setGroupByFile(!groupByFile)}
+                        ></span>
+                    )}
                 </div>
+                <FavoritesList
+                    favorites={favorites}
+                    expanded={showFavorites}
+                    onToggle={() => setShowFavorites(!showFavorites)}
+                />
                 {backendStatus === 'loading' && (
                     <div className="status-warning">
                         <span className="codicon codicon-loading codicon-modifier-spin"></span>
@@ -463,6 +504,14 @@ const App: React.FC = () => {
                     )}
                 </div>
                 
+                <KindFilterBar selected={kindFilters} onChange={handleKindFiltersChange} />
+                <HistoryList
+                    entries={historyEntries}
+                    index={historyIndex}
+                    expanded={showHistory}
+                    onToggle={() => setShowHistory(!showHistory)}
+                />
+                
                 {mode === 'project' && enableDeepSearch && !isDatabaseMode && showDetails && (
                     <div className="search-details">
                         <div className="scope-control">
@@ -500,7 +549,7 @@ const App: React.FC = () => {
                     </div>
                 )}
             </div>
-            <div className="tree-container" onScroll={handleScroll}>
+            <div className="tree-container" ref={treeContainerRef} onScroll={handleScroll}>
                 {isSearching && <div className="loading-indicator">Searching...</div>}
                 {!isSearching && displaySymbols.length === 0 && query.length > 0 && (
                     <div className="no-results">No results found</div>
@@ -510,10 +559,23 @@ const App: React.FC = () => {
                     onJump={handleJump}
                     onSelect={handleSelect}
                     selectedSymbol={selectedSymbol}
-                    defaultExpanded={mode === 'current' ? !!query : false}
+                    defaultExpanded={mode === 'current' ? !!query || kindFilters.length > 0 : false}
                     searchQuery={query}
+                    revealedSymbols={revealedSymbols}
+                    scrollContainerRef={treeContainerRef}
                 />
             </div>
+            {showPreview && preview && (
+                <CodePreviewPane
+                    preview={preview}
+                    onClose={() => setPreview(undefined)}
+                    onOpenLine={line => vscode.postMessage({
+                        command: 'jump',
+                        uri: preview.uri,
+                        range: [{ line, character: 0 }, { line, character: 0 }]
+                    })}
+                />
+            )}
         </div>
     );
 };
@@ -0,0 +1,110 @@
+import React from 'react';
+import { RelationItem } from '../../../shared/types';
+import { getIconInfo } from '../../components/symbolIcons';
+
+interface RelationTreeProps {
+    root: RelationItem;
+    childrenMap: Record<string, RelationItem[]>;
+    expandedIds: Set<string>;
+    loadingIds: Set<string>;
+    selectedId: string | null;
+    onToggle: (item: RelationItem) => void;
+    onSelect: (item: RelationItem) => void;
+    onJump: (item: RelationItem) => void;
+}
+
+interface RelationNodeProps extends Omit<RelationTreeProps, 'root'> {
+    item: RelationItem;
+    depth: number;
+}
+
+export const getChildren = (item: RelationItem, childrenMap: Record<string, RelationItem[]>): RelationItem[] | undefined => {
+    return item.children || childrenMap[item.id];
+};
+
+const RelationNode: React.FC<RelationNodeProps> = (props) => {
+    const { item, depth, childrenMap, expandedIds, loadingIds, selectedId, onToggle, onSelect, onJump } = props;
+    const children = getChildren(item, childrenMap);
+    const isExpanded = expandedIds.has(item.id);
+    const isLoading = loadingIds.has(item.id);
+    // Unresolved expandable nodes show a chevron until we know they have no children
+    const hasChildren = children ? children.length > 0 : item.expandable;
+
+    const toggleExpand = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        onToggle(item);
+    };
+
+    // Deep Search line matches use a search icon to differentiate them from semantic results
+    let iconInfo = getIconInfo(item.kind);
+    if (item.isDeepSearch && !item.children) {
+        iconInfo = { icon: 'codicon-search', colorVar: '--vscode-descriptionForeground' };
+    } else if (item.isCycle) {
+        iconInfo = { icon: 'codicon-sync', colorVar: '--vscode-descriptionForeground' };
+    }
+
+    let title: string | undefined;
+    if (item.isDeepSearch) {
+        title = 'Text Match (Deep Search)';
+    } else if (item.isHeuristic) {
+        title = 'Heuristic Caller (text match inside this function)';
+    } else if (item.isCycle) {
+        title = 'Recursive Call (already on the path from the root)';
+    }
+
+    let chevron = 'hidden';
+    if (isLoading) {
+        chevron = 'codicon-loading codicon-modifier-spin';
+    } else if (hasChildren) {
+        chevron = isExpanded ? 'codicon-chevron-down' : 'codicon-chevron-right';
+    }
+
+    return (
+        <div>
+            <div
+                className={`symbol-item relation-item ${item.isHeuristic ? 'heuristic' : ''} ${selectedId === item.id ? 'selected' : ''}`}
+                style={{
+                    paddingLeft: `${depth * 15 + 5}px`,
+                    backgroundColor: item.isDeepSearch ? 'var(--vscode-editor-findMatchHighlightBackground)' : undefined
+                }}
+                data-id={item.id}
+                onClick={() => onSelect(item)}
+                onDoubleClick={() => onJump(item)}
+                title={title}
+            >
+                <span
+                    className={`codicon symbol-expand-icon ${chevron}`}
+                    onClick={toggleExpand}
+                ></span>
+                <span
+                    className={`symbol-icon codicon ${iconInfo.icon}`}
+                    style={{ color: `var(${iconInfo.colorVar})` }}
+                ></span>
+                <span className="symbol-name">{item.name}</span>
+                <span className="symbol-detail">{item.detail}</span>
+            </div>
+            {isExpanded && children && children.length > 0 && (
+                <div>
+                    {children.map(child => (
+                        <RelationNode
+                            {...props}
+                            key={child.id}
+                            item={child}
+                            depth={depth + 1}
+                        />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const RelationTree: React.FC<RelationTreeProps> = (props) => {
+    return (
+        <div className="symbol-tree relation-tree">
+            <RelationNode {...props} item={props.root} depth={0} />
+        </div>
+    );
+};
+
+export default RelationTree;
@@ -0,0 +1,257 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { RelationItem, RelationDirection, RelationMessage } from '../../../shared/types';
+import RelationTree, { getChildren } from './RelationTree';
+import { vscode } from '../../vscodeApi';
+
+const collectInlineIds = (items: RelationItem[]): string[] => {
+    return items
+        .filter(item => item.children)
+        .flatMap(item => [item.id, ...collectInlineIds(item.children!)]);
+};
+
+const DIRECTION_LABELS: Record<RelationDirection, string> = {
+    incoming: 'Called By (Incoming)',
+    outgoing: 'Calls (Outgoing)',
+    typeHierarchy: 'Type Hierarchy (Supertypes/Subtypes)'
+};
+
+const EMPTY_MESSAGES: Record<RelationDirection, string> = {
+    incoming: 'No callers found.',
+    outgoing: 'No callees found.',
+    typeHierarchy: 'No supertypes or subtypes found.'
+};
+
+// Appended pages may continue a file group of the previous page (same id): merge its lines
+const mergeChildren = (existing: RelationItem[], appended: RelationItem[]): RelationItem[] => {
+    const result = [...existing];
+    appended.forEach(item => {
+        const index = result.findIndex(c => c.id === item.id);
+        if (index >= 0 && result[index].children && item.children) {
+            result[index] = { ...result[index], children: [...result[index].children!, ...item.children] };
+        } else {
+            result.push(item);
+        }
+    });
+    return result;
+};
+
+const RelationWindow: React.FC = () => {
+    const [direction, setDirection] = useState<RelationDirection>('incoming');
+    const [root, setRoot] = useState<RelationItem | null>(null);
+    const [childrenMap, setChildrenMap] = useState<Record<string, RelationItem[]>>({});
+    const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+    const [loadingIds, setLoadingIds] = useState<Set<string>>(new Set());
+    const [selectedItem, setSelectedItem] = useState<RelationItem | null>(null);
+    const [isStale, setIsStale] = useState(false);
+    const [isLocked, setIsLocked] = useState(false);
+    const [hasMore, setHasMore] = useState(false);
+    // Overrides the direction label for special trees (e.g. call paths)
+    const [title, setTitle] = useState<string | undefined>(undefined);
+
+    // Latest root request. Responses for older roots are discarded.
+    const requestIdRef = useRef<number>(-1);
+    const rootRef = useRef<RelationItem | null>(null);
+    const directionRef = useRef<RelationDirection>(direction);
+
+    useEffect(() => { rootRef.current = root; }, [root]);
+    useEffect(() => { directionRef.current = direction; }, [direction]);
+
+    // Handle messages from extension
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            const message = event.data as RelationMessage;
+            switch (message.command) {
+                case 'updateRelation':
+                    requestIdRef.current = message.requestId;
+                    setRoot(message.root);
+                    setDirection(message.direction);
+                    setChildrenMap({ [message.root.id]: message.children });
+                    // Inline groups (reference files, type hierarchy sections, call paths) start expanded
+                    setExpandedIds(new Set([message.root.id, ...collectInlineIds(message.children)]));
+                    setTitle(message.title);
+                    setLoadingIds(new Set());
+                    setSelectedItem(null);
+                    setIsStale(false);
+                    setHasMore(!!message.hasMore);
+                    break;
+                case 'updateNode':
+                    if (message.requestId !== requestIdRef.current) {
+                        break;
+                    }
+                    setChildrenMap(prev => ({ ...prev, [message.itemId]: message.children }));
+                    setLoadingIds(prev => {
+                        const next = new Set(prev);
+                        next.delete(message.itemId);
+                        return next;
+                    });
+                    break;
+                case 'appendRelation':
+                    if (message.requestId !== requestIdRef.current || !rootRef.current) {
+                        break;
+                    }
+                    const rootId = rootRef.current.id;
+                    setChildrenMap(prev => ({ ...prev, [rootId]: mergeChildren(prev[rootId] || [], message.children) }));
+                    if (message.hasMore !== undefined) {
+                        setHasMore(message.hasMore);
+                    }
+                    break;
+                case 'setDirection':
+                    setDirection(message.direction);
+                    break;
+                case 'expandNodes':
+                    setExpandedIds(prev => new Set([...prev, ...message.itemIds]));
+                    break;
+                case 'setLocked':
+                    setIsLocked(message.locked);
+                    break;
+                case 'stale':
+                    setIsStale(true);
+                    break;
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        vscode.postMessage({ command: 'ready' });
+
+        return () => window.removeEventListener('message', handleMessage);
+    }, []);
+
+    const handleToggle = (item: RelationItem) => {
+        if (expandedIds.has(item.id)) {
+            setExpandedIds(prev => {
+                const next = new Set(prev);
+                next.delete(item.id);
+                return next;
+            });
+            // Collapsed while loading: stop the lookup, expanding again starts a new one
+            if (loadingIds.has(item.id)) {
+                setLoadingIds(prev => {
+                    const next = new Set(prev);
+                    next.delete(item.id);
+                    return next;
+                });
+                vscode.postMessage({ command: 'cancelHierarchy', itemId: item.id });
+            }
+            return;
+        }
+
+        setExpandedIds(prev => new Set(prev).add(item.id));
+
+        // Lazy loading: fetch children the first time the node is expanded
+        if (item.expandable && !getChildren(item, childrenMap) && !loadingIds.has(item.id)) {
+            setLoadingIds(prev => new Set(prev).add(item.id));
+            vscode.postMessage({ command: 'resolveHierarchy', itemId: item.id, direction: directionRef.current });
+        }
+    };
+
+    const handleSelect = (item: RelationItem) => {
+        setSelectedItem(item);
+        vscode.postMessage({ command: 'preview', uri: item.uri, range: item.range });
+    };
+
+    const handleJump = (item: RelationItem) => {
+        vscode.postMessage({ command: 'jump', uri: item.uri, range: item.range });
+    };
+
+    // Auto-load more references if content doesn't fill container
+    useEffect(() => {
+        if (hasMore) {
+            const container = document.querySelector('.relation-container .tree-container');
+            if (container && container.scrollHeight <= container.clientHeight) {
+                vscode.postMessage({ command: 'loadMore' });
+            }
+        }
+    }, [childrenMap, hasMore]);
+
+    // Handle scroll for infinite loading
+    const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+        if (hasMore) {
+            const { scrollTop, scrollHeight, clientHeight } = e.currentTarget;
+            // If scrolled to bottom (within 20px)
+            if (scrollTop + clientHeight >= scrollHeight - 20) {
+                vscode.postMessage({ command: 'loadMore' });
+            }
+        }
+    };
+
+    // Handle keyboard navigation (consistent with the Symbol Window)
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                const selectedEl = document.querySelector('.relation-item.selected');
+                const allItems = Array.from(document.querySelectorAll('.relation-item'));
+
+                if (allItems.length === 0) {
+                    return;
+                }
+
+                let nextIndex = 0;
+                if (selectedEl) {
+                    const currentIndex = allItems.indexOf(selectedEl);
+                    if (e.key === 'ArrowDown') {
+                        nextIndex = Math.min(currentIndex + 1, allItems.length - 1);
+                    } else {
+                        nextIndex = Math.max(currentIndex - 1, 0);
+                    }
+                }
+
+                const nextEl = allItems[nextIndex] as HTMLElement;
+                if (nextEl) {
+                    nextEl.click();
+                    nextEl.scrollIntoView({ block: 'nearest' });
+                }
+            } else if (e.key === 'Enter') {
+                if (selectedItem) {
+                    handleJump(selectedItem);
+                }
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [selectedItem]);
+
+    return (
+        <div className="container relation-container">
+            <div className="search-container">
+                <div className="mode-indicator">
+                    {title ?? DIRECTION_LABELS[direction]}
+                    {isLocked && (
+                        <span className="codicon codicon-lock relation-lock-indicator" title="View is locked (cursor sync disabled)"></span>
+                    )}
+                </div>
+                {isStale && (
+                    <div className="status-warning">
+                        <span className="codicon codicon-warning"></span>
+                        Data is stale. Please refresh.
+                    </div>
+                )}
+            </div>
+            <div className="tree-container" onScroll={handleScroll}>
+                {!root && (
+                    <div className="no-results">Place the cursor on a function or class to see its hierarchy.</div>
+                )}
+                {root && (
+                    <RelationTree
+                        root={root}
+                        childrenMap={childrenMap}
+                        expandedIds={expandedIds}
+                        loadingIds={loadingIds}
+                        selectedId={selectedItem ? selectedItem.id : null}
+                        onToggle={handleToggle}
+                        onSelect={handleSelect}
+                        onJump={handleJump}
+                    />
+                )}
+                {root && (childrenMap[root.id] || []).length === 0 && (
+                    <div className="no-results">
+                        {EMPTY_MESSAGES[direction]}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default RelationWindow;
@@ -0,0 +1,52 @@
+import React, { useMemo } from 'react';
+import { CodePreview } from '../../../shared/types';
+import { tokenizeLines } from './highlightCode';
+
+interface CodePreviewPaneProps {
+    preview: CodePreview;
+    onClose: () => void;
+    onOpenLine: (line: number) => void; // 0-based
+}
+
+const CodePreviewPane: React.FC<CodePreviewPaneProps> = ({ preview, onClose, onOpenLine }) => {
+    const tokens = useMemo(() => tokenizeLines(preview.lines, preview.languageId), [preview]);
+    const fileName = decodeURIComponent(preview.uri.split('/').pop() || '');
+
+    return (
+        <div className="code-preview">
+            <div className="code-preview-header">
+                <span className="codicon codicon-file-code"></span>
+                <span className="code-preview-title" title={preview.uri}>{fileName}:{preview.symbolStartLine + 1}</span>
+                <span
+                    className="codicon codicon-close action-icon"
+                    title="Close Preview"
+                    onClick={onClose}
+                ></span>
+            </div>
+            <div className="code-preview-body">
+                {tokens.map((lineTokens, i) => {
+                    const line = preview.firstLine + i;
+                    const inSymbol = line >= preview.symbolStartLine && line <= preview.symbolEndLine;
+                    return (
+                        <div
+                            key={line}
+                            className={`code-preview-line ${inSymbol ? 'in-symbol' : ''}`}
+                            title="Double-click to open"
+                            onDoubleClick={() => onOpenLine(line)}
+                        >
+                            <span className="code-preview-line-number">{line + 1}</span>
+                            <span className="code-preview-code">
+                                {lineTokens.map((token, j) => (
+                                    <span key={j} className={`token-${token.type}`}>{token.text}</span>
+                                ))}
+                            </span>
+                        </div>
+                    );
+                })}
+                {preview.truncated && <div className="code-preview-truncated">…</div>}
+            </div>
+        </div>
+    );
+};
+
+export default CodePreviewPane;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { FavoriteSymbol } from '../../../shared/types';
+import { getIconInfo } from '../../components/symbolIcons';
+import { vscode } from '../../vscodeApi';
+
+interface FavoritesListProps {
+    favorites: FavoriteSymbol[];
+    expanded: boolean;
+    onToggle: () => void;
+}
+
+const FavoritesList: React.FC<FavoritesListProps> = ({ favorites, expanded, onToggle }) => {
+    if (favorites.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="section-list favorites-list">
+            <div className="section-list-header" onClick={onToggle}>
+                <span className={`codicon ${expanded ? 'codicon-chevron-down' : 'codicon-chevron-right'}`}></span>
+                <span>Favorites ({favorites.length})</span>
+            </div>
+            {expanded && (
+                <div className="section-list-items">
+                    {favorites.map((favorite, i) => {
+                        const iconInfo = getIconInfo(favorite.kind);
+                        const fileName = favorite.path.split(/[\\/]/).pop();
+                        return (
+                            <div
+                                key={i}
+                                className="section-list-item"
+                                title={favorite.path}
+                                onClick={() => vscode.postMessage({ command: 'openFavorite', index: i })}
+                            >
+                                <span
+                                    className={`codicon ${iconInfo.icon}`}
+                                    style={{ color: `var(${iconInfo.colorVar})` }}
+                                ></span>
+                                <span className="section-list-label">{favorite.name}</span>
+                                <span className="section-list-detail">
+                                    {favorite.containerName ? `${favorite.containerName} · ${fileName}` : fileName}
+                                </span>
+                                <span
+                                    className="codicon codicon-close action-icon remove-icon"
+                                    title="Remove from Favorites"
+                                    onClick={e => {
+                                        e.stopPropagation();
+                                        vscode.postMessage({ command: 'removeFavorite', index: i });
+                                    }}
+                                ></span>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FavoritesList;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { NavigationEntry } from '../../../shared/types';
+import { vscode } from '../../vscodeApi';
+
+interface HistoryListProps {
+    entries: NavigationEntry[]; // Oldest first, as kept by the extension
+    index: number; // Current position in entries
+    expanded: boolean;
+    onToggle: () => void;
+}
+
+const HistoryList: React.FC<HistoryListProps> = ({ entries, index, expanded, onToggle }) => {
+    if (entries.length === 0) {
+        return null;
+    }
+
+    // Newest first, like the Back / Forward dropdown of a browser
+    const items = entries.map((entry, i) => ({ entry, i })).reverse();
+
+    return (
+        <div className="section-list">
+            <div className="section-list-header" onClick={onToggle}>
+                <span className={`codicon ${expanded ? 'codicon-chevron-down' : 'codicon-chevron-right'}`}></span>
+                <span>History ({entries.length})</span>
+            </div>
+            {expanded && (
+                <div className="section-list-items">
+                    {items.map(({ entry, i }) => (
+                        <div
+                            key={i}
+                            className={`section-list-item ${i === index ? 'current' : ''}`}
+                            title={entry.detail}
+                            onClick={() => vscode.postMessage({ command: 'navigateHistory', index: i })}
+                        >
+                            <span className={`codicon ${i === index ? 'codicon-arrow-right' : 'codicon-blank'}`}></span>
+                            <span className="section-list-label">{entry.label}</span>
+                            <span className="section-list-detail">{entry.detail}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default HistoryList;
@@ -0,0 +1,58 @@
+import React from 'react';
+
+interface KindFilter {
+    id: string;
+    label: string;
+    icon: string;
+    kinds: number[]; // vscode.SymbolKind (0-based)
+}
+
+// Source Insight style groups. clangd reports macros as String symbols.
+export const KIND_FILTERS: KindFilter[] = [
+    { id: 'functions', label: 'Functions', icon: 'codicon-symbol-method', kinds: [5, 8, 11, 24] },
+    { id: 'types', label: 'Types', icon: 'codicon-symbol-class', kinds: [4, 9, 10, 22, 25] },
+    { id: 'variables', label: 'Variables', icon: 'codicon-symbol-variable', kinds: [12, 13] },
+    { id: 'fields', label: 'Fields', icon: 'codicon-symbol-field', kinds: [6, 7, 21, 23] },
+    { id: 'macros', label: 'Macros', icon: 'codicon-symbol-string', kinds: [14] },
+    { id: 'namespaces', label: 'Namespaces', icon: 'codicon-symbol-namespace', kinds: [1, 2, 3] }
+];
+
+/** Kinds allowed by the selected chips; empty when none is selected (no filtering). */
+export const getFilterKinds = (selected: string[]): number[] =>
+    KIND_FILTERS.filter(f => selected.includes(f.id)).flatMap(f => f.kinds);
+
+interface KindFilterBarProps {
+    selected: string[];
+    onChange: (selected: string[]) => void;
+}
+
+const KindFilterBar: React.FC<KindFilterBarProps> = ({ selected, onChange }) => {
+    const toggle = (id: string) => {
+        onChange(selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id]);
+    };
+
+    return (
+        <div className="kind-filter-bar">
+            {KIND_FILTERS.map(filter => (
+                <span
+                    key={filter.id}
+                    className={`kind-filter-chip ${selected.includes(filter.id) ? 'active' : ''}`}
+                    title={`Show ${filter.label}`}
+                    onClick={() => toggle(filter.id)}
+                >
+                    <span className={`codicon ${filter.icon}`}></span>
+                    {filter.label}
+                </span>
+            ))}
+            {selected.length > 0 && (
+                <span
+                    className="codicon codicon-clear-all action-icon"
+                    title="Clear Kind Filters"
+                    onClick={() => onChange([])}
+                ></span>
+            )}
+        </div>
+    );
+};
+
+export default KindFilterBar;
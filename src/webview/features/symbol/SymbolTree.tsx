@@ -1,5 +1,9 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import { SymbolItem } from '../../../shared/types';
+import { matchKeywords } from '../../../shared/fuzzy';
+import { parseQuery } from '../../../shared/query';
+import { getIconInfo } from '../../components/symbolIcons';
+import { flattenSymbols, getVisibleRange, TreeRow } from './treeRows';
 
 interface SymbolTreeProps {
     symbols: SymbolItem[];
@@ -8,45 +12,80 @@ interface SymbolTreeProps {
     selectedSymbol: SymbolItem | null;
     defaultExpanded?: boolean;
     searchQuery?: string;
+    revealedSymbols?: Set<SymbolItem>; // Expanded to show the symbol under the cursor (follow cursor)
+    scrollContainerRef: React.RefObject<HTMLDivElement | null>; // Scrolling element around the tree
 }
 
-const SymbolNode: React.FC<{ 
-    symbol: SymbolItem; 
-    depth: number; 
+// Rows have a fixed height (see .symbol-item) so that only the visible ones are rendered
+const ROW_HEIGHT = 22;
+// Rows rendered above and below the viewport, so fast scrolling does not show blank space
+const OVERSCAN = 20;
+
+type Position = { line: number; character: number };
+
+const isBefore = (a: Position, b: Position) => a.line < b.line || (a.line === b.line && a.character < b.character);
+
+/**
+ * Path from a root to the innermost symbol whose range contains the position (empty if none).
+ * Ranges arrive serialized as [start, end].
+ */
+export const findSymbolPath = (symbols: SymbolItem[], uri: string, position: Position): SymbolItem[] => {
+    for (const symbol of symbols) {
+        if (!symbol.range || (symbol.uri && symbol.uri !== uri)) {
+            continue;
+        }
+        const [start, end] = symbol.range;
+        if (isBefore(position, start) || isBefore(end, position)) {
+            continue;
+        }
+        return [symbol, ...findSymbolPath(symbol.children || [], uri, position)];
+    }
+    return [];
+};
+
+// Context menu commands (e.g. call paths) receive this object as their argument
+const getMenuContext = (symbol: SymbolItem, parentName?: string) => ({
+    webviewSection: 'symbol',
+    preventDefaultContextMenuItems: true,
+    symbolName: symbol.name,
+    symbolUri: symbol.uri,
+    symbolKind: symbol.kind,
+    containerName: symbol.containerName ?? parentName,
+    line: symbol.selectionRange ? symbol.selectionRange[0].line : 0,
+    character: symbol.selectionRange ? symbol.selectionRange[0].character : 0
+});
+
+// Declaration and doc comment stored by the indexer (database results)
+const getTooltip = (symbol: SymbolItem): string | undefined => {
+    const parts = [symbol.declaration, symbol.documentation].filter(Boolean);
+    return parts.length > 0 ? parts.join('\n\n') : undefined;
+};
+
+const SymbolRow: React.FC<{
+    row: TreeRow;
+    selected: boolean;
     onJump: (s: SymbolItem) => void;
     onSelect: (s: SymbolItem) => void;
-    selectedSymbol: SymbolItem | null;
-    defaultExpanded?: boolean;
+    onToggle: (row: TreeRow) => void;
     searchQuery?: string;
-}> = ({ symbol, depth, onJump, onSelect, selectedSymbol, defaultExpanded, searchQuery }) => {
-    const [expanded, setExpanded] = useState(() => {
-        if (symbol.autoExpand !== undefined) {
-            return symbol.autoExpand;
-        }
-        return defaultExpanded || false;
-    });
-    const hasChildren = symbol.children && symbol.children.length > 0;
-
-    // Update expanded state when defaultExpanded prop changes or when autoExpand is set by search filter
-    React.useEffect(() => {
-        if (symbol.autoExpand !== undefined) {
-            setExpanded(symbol.autoExpand);
-        } else {
-            setExpanded(defaultExpanded || false);
-        }
-    }, [defaultExpanded, symbol.autoExpand]);
+}> = React.memo(({ row, selected, onJump, onSelect, onToggle, searchQuery }) => {
+    const { symbol, depth, hasChildren, expanded } = row;
 
     const handleClick = () => {
         onSelect(symbol);
     };
 
     const handleDoubleClick = () => {
-        onJump(symbol);
+        if (symbol.group) {
+            onToggle(row);
+        } else {
+            onJump(symbol);
+        }
     };
 
     const toggleExpand = (e: React.MouseEvent) => {
         e.stopPropagation();
-        setExpanded(!expanded);
+        onToggle(row);
     };
 
     // Highlight matched text in bold
@@ -55,37 +94,23 @@ const SymbolNode: React.FC<{
             return <>{text}</>;
         }
 
-        const keywords = query.toLowerCase().split(/\s+/).filter(k => k.length > 0);
-        const lowerText = text.toLowerCase();
-        
-        // Find all match positions
-        const matches: Array<{start: number, end: number}> = [];
-        keywords.forEach(keyword => {
-            let index = 0;
-            while ((index = lowerText.indexOf(keyword, index)) !== -1) {
-                matches.push({ start: index, end: index + keyword.length });
-                index += keyword.length;
-            }
-        });
-
-        if (matches.length === 0) {
+        // Positions computed by the search (fuzzy, e.g. "gsbr" -> getSymbolsByRange), or matched here
+        // for rows the search did not score (members shown under a matching parent)
+        const positions = symbol.matches ?? matchKeywords(parseQuery(query).keywords, text)?.positions ?? [];
+        if (positions.length === 0) {
             return <>{text}</>;
         }
 
-        // Sort and merge overlapping matches
-        matches.sort((a, b) => a.start - b.start);
+        // Merge consecutive positions into ranges
         const merged: Array<{start: number, end: number}> = [];
-        let current = matches[0];
-        
-        for (let i = 1; i < matches.length; i++) {
-            if (matches[i].start <= current.end) {
-                current.end = Math.max(current.end, matches[i].end);
+        for (const position of positions) {
+            const last = merged[merged.length - 1];
+            if (last && last.end === position) {
+                last.end = position + 1;
             } else {
-                merged.push(current);
-                current = matches[i];
+                merged.push({ start: position, end: position + 1 });
             }
         }
-        merged.push(current);
 
         // Build the highlighted text
         const parts: React.ReactNode[] = [];
@@ -113,103 +138,172 @@ const SymbolNode: React.FC<{
         return <>{parts}</>;
     };
 
-    // Map SymbolKind to Codicon class and color
-    const getIconInfo = (kind: number) => {
-        // See vscode.SymbolKind (0-based)
-        const map: {[key: number]: { icon: string, colorVar: string }} = {
-            0: { icon: 'codicon-symbol-file', colorVar: '--vscode-symbolIcon-fileForeground' },
-            1: { icon: 'codicon-symbol-module', colorVar: '--vscode-symbolIcon-moduleForeground' },
-            2: { icon: 'codicon-symbol-namespace', colorVar: '--vscode-symbolIcon-namespaceForeground' },
-            3: { icon: 'codicon-symbol-package', colorVar: '--vscode-symbolIcon-packageForeground' },
-            4: { icon: 'codicon-symbol-class', colorVar: '--vscode-symbolIcon-classForeground' },
-            5: { icon: 'codicon-symbol-method', colorVar: '--vscode-symbolIcon-methodForeground' },
-            6: { icon: 'codicon-symbol-property', colorVar: '--vscode-symbolIcon-propertyForeground' },
-            7: { icon: 'codicon-symbol-field', colorVar: '--vscode-symbolIcon-fieldForeground' },
-            8: { icon: 'codicon-symbol-constructor', colorVar: '--vscode-symbolIcon-constructorForeground' },
-            9: { icon: 'codicon-symbol-enum', colorVar: '--vscode-symbolIcon-enumForeground' },
-            10: { icon: 'codicon-symbol-interface', colorVar: '--vscode-symbolIcon-interfaceForeground' },
-            11: { icon: 'codicon-symbol-function', colorVar: '--vscode-symbolIcon-functionForeground' },
-            12: { icon: 'codicon-symbol-variable', colorVar: '--vscode-symbolIcon-variableForeground' },
-            13: { icon: 'codicon-symbol-constant', colorVar: '--vscode-symbolIcon-constantForeground' },
-            14: { icon: 'codicon-symbol-string', colorVar: '--vscode-symbolIcon-stringForeground' },
-            15: { icon: 'codicon-symbol-number', colorVar: '--vscode-symbolIcon-numberForeground' },
-            16: { icon: 'codicon-symbol-boolean', colorVar: '--vscode-symbolIcon-booleanForeground' },
-            17: { icon: 'codicon-symbol-array', colorVar: '--vscode-symbolIcon-arrayForeground' },
-            18: { icon: 'codicon-symbol-object', colorVar: '--vscode-symbolIcon-objectForeground' },
-            19: { icon: 'codicon-symbol-key', colorVar: '--vscode-symbolIcon-keyForeground' },
-            20: { icon: 'codicon-symbol-null', colorVar: '--vscode-symbolIcon-nullForeground' },
-            21: { icon: 'codicon-symbol-enum-member', colorVar: '--vscode-symbolIcon-enumMemberForeground' },
-            22: { icon: 'codicon-symbol-struct', colorVar: '--vscode-symbolIcon-structForeground' },
-            23: { icon: 'codicon-symbol-event', colorVar: '--vscode-symbolIcon-eventForeground' },
-            24: { icon: 'codicon-symbol-operator', colorVar: '--vscode-symbolIcon-operatorForeground' },
-            25: { icon: 'codicon-symbol-type-parameter', colorVar: '--vscode-symbolIcon-typeParameterForeground' },
-        };
-        return map[kind] || { icon: 'codicon-symbol-misc', colorVar: '--vscode-symbolIcon-nullForeground' };
-    };
-
-    const iconInfo = getIconInfo(symbol.kind);
+    const iconInfo = symbol.group === 'folder'
+        ? { icon: 'codicon-folder', colorVar: '--vscode-icon-foreground' }
+        : getIconInfo(symbol.kind);
 
     return (
-        <div>
-            <div 
-                className={`symbol-item ${selectedSymbol === symbol ? 'selected' : ''}`}
-                style={{ 
-                    paddingLeft: `${depth * 15 + 5}px`,
-                    backgroundColor: symbol.isDeepSearch ? 'var(--vscode-editor-findMatchHighlightBackground)' : undefined
-                }}
-                onClick={handleClick}
-                onDoubleClick={handleDoubleClick}
-                title={symbol.isDeepSearch ? "Result from Deep Search" : undefined}
-            >
-                <span 
-                    className={`codicon symbol-expand-icon ${hasChildren ? (expanded ? 'codicon-chevron-down' : 'codicon-chevron-right') : 'hidden'}`}
-                    onClick={toggleExpand}
-                ></span>
-                <span 
-                    className={`symbol-icon codicon ${iconInfo.icon}`}
-                    style={{ color: `var(${iconInfo.colorVar})` }}
-                ></span>
-                <span className="symbol-name">{highlightText(symbol.name, searchQuery)}</span>
-                <span className="symbol-detail">{symbol.detail}</span>
-            </div>
-            {hasChildren && expanded && (
-                <div>
-                    {symbol.children.map((child, index) => (
-                        <SymbolNode 
-                            key={index} 
-                            symbol={child} 
-                            depth={depth + 1} 
-                            onJump={onJump}
-                            onSelect={onSelect}
-                            selectedSymbol={selectedSymbol}
-                            // Fix: Do NOT pass defaultExpanded to children. 
-                            // This ensures that if a Struct matches, it expands to show itself, 
-                            // but its children (members) remain collapsed by default.
-                            defaultExpanded={false}
-                            searchQuery={searchQuery}
-                        />
-                    ))}
-                </div>
-            )}
+        <div 
+            className={`symbol-item ${selected ? 'selected' : ''}`}
+            style={{ 
+                paddingLeft: `${depth * 15 + 5}px`,
+                backgroundColor: symbol.isDeepSearch ? 'var(--vscode-editor-findMatchHighlightBackground)' : undefined
+            }}
+            onClick={handleClick}
+            onDoubleClick={handleDoubleClick}
+            title={symbol.isDeepSearch ? "Result from Deep Search" : getTooltip(symbol)}
+            data-vscode-context={symbol.group ? undefined : JSON.stringify(getMenuContext(symbol, row.parentName))}
+        >
+            <span 
+                className={`codicon symbol-expand-icon ${hasChildren ? (expanded ? 'codicon-chevron-down' : 'codicon-chevron-right') : 'hidden'}`}
+                onClick={toggleExpand}
+            ></span>
+            <span 
+                className={`symbol-icon codicon ${iconInfo.icon}`}
+                style={{ color: `var(${iconInfo.colorVar})` }}
+            ></span>
+            <span className="symbol-name">{symbol.group ? symbol.name : highlightText(symbol.name, searchQuery)}</span>
+            <span className="symbol-detail">{symbol.detail}</span>
         </div>
     );
-};
+});
+
+/**
+ * Virtualized tree: the expanded part of the tree is flattened into rows and only the rows
+ * in the viewport of the scroll container are rendered, so 100k rows scroll smoothly.
+ */
+const SymbolTree: React.FC<SymbolTreeProps> = ({ symbols, onJump, onSelect, selectedSymbol, defaultExpanded, searchQuery, revealedSymbols, scrollContainerRef }) => {
+    // Expand state toggled by the user; other symbols use autoExpand (search filter) or defaultExpanded (roots only)
+    const expandedRef = useRef(new WeakMap<SymbolItem, boolean>());
+    const [expandVersion, setExpandVersion] = useState(0);
+    const treeRef = useRef<HTMLDivElement>(null);
+    const [range, setRange] = useState({ start: 0, end: 0 });
+    const pendingRevealRef = useRef(false);
+
+    // A new default collapses or expands everything again
+    useEffect(() => {
+        expandedRef.current = new WeakMap();
+        setExpandVersion(v => v + 1);
+    }, [defaultExpanded]);
+
+    const rows = useMemo(() => flattenSymbols(symbols, (symbol, depth) => {
+        const toggled = expandedRef.current.get(symbol);
+        if (toggled !== undefined) {
+            return toggled;
+        }
+        if (revealedSymbols?.has(symbol)) {
+            return true;
+        }
+        return symbol.autoExpand ?? (depth === 0 ? !!defaultExpanded : false);
+    }), [symbols, defaultExpanded, revealedSymbols, expandVersion]);
+
+    const updateRange = useCallback(() => {
+        const container = scrollContainerRef.current;
+        if (!container) {
+            return;
+        }
+        // The tree may sit below other content of the container (e.g. the loading indicator)
+        const offset = treeRef.current ? treeRef.current.offsetTop : 0;
+        const next = getVisibleRange(container.scrollTop - offset, container.clientHeight, ROW_HEIGHT, rows.length, OVERSCAN);
+        setRange(prev => (prev.start === next.start && prev.end === next.end ? prev : next));
+    }, [rows.length]);
+
+    useLayoutEffect(() => {
+        const container = scrollContainerRef.current;
+        if (!container) {
+            return;
+        }
+        updateRange();
+        container.addEventListener('scroll', updateRange, { passive: true });
+        const observer = new ResizeObserver(updateRange);
+        observer.observe(container);
+        return () => {
+            container.removeEventListener('scroll', updateRange);
+            observer.disconnect();
+        };
+    }, [updateRange]);
+
+    const scrollToRow = (index: number) => {
+        const container = scrollContainerRef.current;
+        if (!container || !treeRef.current) {
+            return;
+        }
+        const top = treeRef.current.offsetTop + index * ROW_HEIGHT;
+        if (top < container.scrollTop) {
+            container.scrollTop = top;
+        } else if (top + ROW_HEIGHT > container.scrollTop + container.clientHeight) {
+            container.scrollTop = top + ROW_HEIGHT - container.clientHeight;
+        }
+    };
+
+    // Follow cursor: re-open ancestors the user collapsed, then scroll the selected symbol into view
+    useEffect(() => {
+        if (!revealedSymbols) {
+            return;
+        }
+        revealedSymbols.forEach(symbol => expandedRef.current.delete(symbol));
+        setExpandVersion(v => v + 1);
+        pendingRevealRef.current = true;
+    }, [revealedSymbols]);
+
+    useEffect(() => {
+        if (!pendingRevealRef.current || !selectedSymbol) {
+            return;
+        }
+        const index = rows.findIndex(row => row.symbol === selectedSymbol);
+        if (index >= 0) {
+            pendingRevealRef.current = false;
+            scrollToRow(index);
+        }
+    }, [rows, selectedSymbol]);
+
+    // Arrow keys move the selection through the visible rows (also while typing in the search box)
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key !== 'ArrowDown' && e.key !== 'ArrowUp') {
+                return;
+            }
+            e.preventDefault();
+            if (rows.length === 0) {
+                return;
+            }
+
+            const currentIndex = selectedSymbol ? rows.findIndex(row => row.symbol === selectedSymbol) : -1;
+            let nextIndex = 0;
+            if (currentIndex >= 0) {
+                nextIndex = e.key === 'ArrowDown'
+                    ? Math.min(currentIndex + 1, rows.length - 1)
+                    : Math.max(currentIndex - 1, 0);
+            }
+
+            onSelect(rows[nextIndex].symbol);
+            scrollToRow(nextIndex);
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [rows, selectedSymbol, onSelect]);
+
+    const handleToggle = useCallback((row: TreeRow) => {
+        expandedRef.current.set(row.symbol, !row.expanded);
+        setExpandVersion(v => v + 1);
+    }, []);
 
-const SymbolTree: React.FC<SymbolTreeProps> = ({ symbols, onJump, onSelect, selectedSymbol, defaultExpanded, searchQuery }) => {
     return (
-        <div className="symbol-tree">
-            {symbols.map((symbol, index) => (
-                <SymbolNode 
-                    key={`${symbol.name}-${index}`} 
-                    symbol={symbol} 
-                    depth={0} 
-                    onJump={onJump}
-                    onSelect={onSelect}
-                    selectedSymbol={selectedSymbol}
-                    defaultExpanded={defaultExpanded}
-                    searchQuery={searchQuery}
-                />
-            ))}
+        <div className="symbol-tree" ref={treeRef} style={{ height: `${rows.length * ROW_HEIGHT}px` }}>
+            <div style={{ transform: `translateY(${range.start * ROW_HEIGHT}px)` }}>
+                {rows.slice(range.start, range.end).map((row, i) => (
+                    <SymbolRow
+                        key={range.start + i}
+                        row={row}
+                        selected={selectedSymbol === row.symbol}
+                        onJump={onJump}
+                        onSelect={onSelect}
+                        onToggle={handleToggle}
+                        searchQuery={searchQuery}
+                    />
+                ))}
+            </div>
         </div>
     );
 };
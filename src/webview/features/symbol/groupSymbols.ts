@@ -0,0 +1,68 @@
+import { SymbolItem } from '../../../shared/types';
+
+/** Path part of a symbol uri, with forward slashes (`file:///c%3A/src/a.ts` -> `/c:/src/a.ts`). */
+export function getUriPath(uri: string): string {
+    return decodeURIComponent(uri.replace(/^[\w+.-]+:\/\/[^/]*/, ''));
+}
+
+const FILE_KIND = 0; // vscode.SymbolKind.File
+
+/**
+ * Folds a flat result list into folder -> file -> symbol groups (`group` set, result count in `detail`).
+ * Groups keep the order of their best result. Folder names are relative to the folder shared by all results.
+ * Group items found in `cache` (by path) are reused, so their expand state survives appended pages.
+ */
+export function groupSymbolsByFile(symbols: SymbolItem[], cache: Map<string, SymbolItem> = new Map()): SymbolItem[] {
+    const folders: SymbolItem[] = [];
+    const byPath = new Map<string, SymbolItem>();
+
+    const getGroup = (key: string, name: string, group: 'folder' | 'file', parent?: SymbolItem): SymbolItem => {
+        let item = byPath.get(key);
+        if (!item) {
+            // Folders start expanded, files collapsed: the file list with counts is the overview
+            item = cache.get(key) || { name, detail: '', kind: FILE_KIND, range: null, selectionRange: null, children: [], group, autoExpand: group === 'folder' };
+            item.name = name;
+            item.children = [];
+            byPath.set(key, item);
+            cache.set(key, item);
+            (parent ? parent.children : folders).push(item);
+        }
+        return item;
+    };
+
+    for (const symbol of symbols) {
+        const path = symbol.uri ? getUriPath(symbol.uri) : '';
+        const slash = path.lastIndexOf('/');
+        const folderPath = path.slice(0, Math.max(slash, 0));
+        const folder = getGroup(`folder:${folderPath}`, folderPath, 'folder');
+        const file = getGroup(`file:${path}`, path.slice(slash + 1), 'file', folder);
+        file.children.push(symbol);
+    }
+
+    // Shorten folder names (full paths so far) to the part below the common folder
+    const common = getCommonFolder(folders.map(folder => folder.name));
+    for (const folder of folders) {
+        const relative = folder.name.slice(common.length).replace(/^\//, '');
+        folder.name = relative || common.split('/').pop() || '/';
+        folder.detail = String(folder.children.reduce((sum, file) => sum + file.children.length, 0));
+        folder.children.forEach(file => { file.detail = String(file.children.length); });
+    }
+
+    return folders;
+}
+
+function getCommonFolder(paths: string[]): string {
+    if (paths.length === 0) {
+        return '';
+    }
+    let common = paths[0].split('/');
+    for (const path of paths.slice(1)) {
+        const segments = path.split('/');
+        let i = 0;
+        while (i < common.length && i < segments.length && common[i] === segments[i]) {
+            i++;
+        }
+        common = common.slice(0, i);
+    }
+    return common.join('/');
+}
@@ -0,0 +1,122 @@
+export type TokenType = 'plain' | 'keyword' | 'string' | 'number' | 'comment' | 'function' | 'type' | 'preprocessor';
+
+export interface CodeToken {
+    text: string;
+    type: TokenType;
+}
+
+// Keywords of the usual languages (C family, TypeScript, Python, Java, Go, Rust). Close enough for a preview.
+const KEYWORDS = new Set([
+    'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'default', 'break', 'continue', 'return', 'goto',
+    'struct', 'union', 'enum', 'typedef', 'static', 'const', 'extern', 'volatile', 'inline', 'sizeof', 'register',
+    'void', 'int', 'char', 'short', 'long', 'float', 'double', 'signed', 'unsigned', 'bool', 'auto',
+    'true', 'false', 'null', 'NULL', 'nullptr', 'undefined', 'None', 'True', 'False',
+    'class', 'public', 'private', 'protected', 'virtual', 'override', 'final', 'abstract', 'template', 'typename',
+    'namespace', 'using', 'new', 'delete', 'this', 'super', 'self', 'throw', 'throws', 'try', 'catch', 'finally',
+    'constexpr', 'noexcept', 'operator', 'friend', 'explicit', 'mutable',
+    'import', 'export', 'from', 'as', 'function', 'let', 'var', 'async', 'await', 'yield', 'interface', 'type',
+    'implements', 'extends', 'package', 'readonly', 'declare', 'keyof', 'typeof', 'instanceof', 'of', 'in',
+    'def', 'lambda', 'pass', 'raise', 'with', 'is', 'not', 'and', 'or', 'elif', 'except',
+    'fn', 'mut', 'impl', 'trait', 'pub', 'use', 'mod', 'match', 'where', 'loop', 'func', 'go', 'chan', 'defer', 'select'
+]);
+
+// Languages where `#` starts a comment (elsewhere `//` and `/* */`, and `#` is the C preprocessor)
+const HASH_COMMENT_LANGUAGES = new Set([
+    'python', 'shellscript', 'ruby', 'perl', 'yaml', 'makefile', 'r', 'powershell', 'dockerfile', 'toml', 'cmake'
+]);
+
+const NUMBER = /^(0x[\da-f]+|\d+(\.\d+)?(e[+-]?\d+)?)[a-z]*/i;
+const WORD = /^[A-Za-z_$][\w$]*/;
+const PREPROCESSOR = /^\s*#\s*\w+/;
+
+/**
+ * Small tokenizer for the code preview: comments (including multi-line block comments), strings, numbers,
+ * keywords, function calls, capitalized type names and C preprocessor directives. One token list per line.
+ */
+export function tokenizeLines(lines: string[], languageId: string): CodeToken[][] {
+    const hashComments = HASH_COMMENT_LANGUAGES.has(languageId);
+    let inBlockComment = false;
+
+    return lines.map(line => {
+        const tokens: CodeToken[] = [];
+        const push = (text: string, type: TokenType) => {
+            const last = tokens[tokens.length - 1];
+            if (last && last.type === type) {
+                last.text += text;
+            } else if (text) {
+                tokens.push({ text, type });
+            }
+        };
+
+        let i = 0;
+        const directive = !hashComments && !inBlockComment ? PREPROCESSOR.exec(line) : null;
+        if (directive) {
+            push(directive[0], 'preprocessor');
+            i = directive[0].length;
+        }
+
+        while (i < line.length) {
+            const rest = line.slice(i);
+
+            if (inBlockComment) {
+                const end = line.indexOf('*/', i);
+                if (end < 0) {
+                    push(rest, 'comment');
+                    break;
+                }
+                push(line.slice(i, end + 2), 'comment');
+                i = end + 2;
+                inBlockComment = false;
+                continue;
+            }
+            if (!hashComments && rest.startsWith('/*')) {
+                push('/*', 'comment');
+                i += 2;
+                inBlockComment = true;
+                continue;
+            }
+            if (hashComments ? rest.startsWith('#') : rest.startsWith('//')) {
+                push(rest, 'comment');
+                break;
+            }
+
+            const ch = line[i];
+            if (ch === '"' || ch === '\'' || ch === '`') {
+                let j = i + 1;
+                while (j < line.length && line[j] !== ch) {
+                    j += line[j] === '\\' ? 2 : 1;
+                }
+                push(line.slice(i, j + 1), 'string');
+                i = j + 1;
+                continue;
+            }
+
+            const number = NUMBER.exec(rest);
+            if (number) {
+                push(number[0], 'number');
+                i += number[0].length;
+                continue;
+            }
+
+            const word = WORD.exec(rest);
+            if (word) {
+                const text = word[0];
+                let type: TokenType = 'plain';
+                if (KEYWORDS.has(text)) {
+                    type = 'keyword';
+                } else if (/^\s*\(/.test(line.slice(i + text.length))) {
+                    type = 'function';
+                } else if (/^[A-Z]/.test(text) && /[a-z]/.test(text)) {
+                    type = 'type';
+                }
+                push(text, type);
+                i += text.length;
+                continue;
+            }
+
+            push(ch, 'plain');
+            i++;
+        }
+        return tokens;
+    });
+}
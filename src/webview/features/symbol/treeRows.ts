@@ -0,0 +1,39 @@
+import { SymbolItem } from '../../../shared/types';
+
+/** One visible line of the symbol tree. */
+export interface TreeRow {
+    symbol: SymbolItem;
+    depth: number;
+    parentName?: string; // Container for the context menu in Current Document mode
+    hasChildren: boolean;
+    expanded: boolean;
+}
+
+/** Rows of the expanded part of the tree, in display order. Collapsed subtrees are not visited. */
+export function flattenSymbols(symbols: SymbolItem[], isExpanded: (symbol: SymbolItem, depth: number) => boolean): TreeRow[] {
+    const rows: TreeRow[] = [];
+
+    const visit = (items: SymbolItem[], depth: number, parentName?: string) => {
+        for (const symbol of items) {
+            const hasChildren = !!symbol.children && symbol.children.length > 0;
+            const expanded = hasChildren && isExpanded(symbol, depth);
+            rows.push({ symbol, depth, parentName, hasChildren, expanded });
+            if (expanded) {
+                visit(symbol.children, depth + 1, symbol.name);
+            }
+        }
+    };
+
+    visit(symbols, 0);
+    return rows;
+}
+
+/** Rows to render for a scroll position (end exclusive), with `overscan` extra rows on each side. */
+export function getVisibleRange(scrollTop: number, viewportHeight: number, rowHeight: number, rowCount: number, overscan: number): { start: number; end: number } {
+    const first = Math.floor(Math.max(0, scrollTop) / rowHeight);
+    const last = Math.ceil((Math.max(0, scrollTop) + viewportHeight) / rowHeight);
+    return {
+        start: Math.max(0, first - overscan),
+        end: Math.min(rowCount, last + overscan)
+    };
+}
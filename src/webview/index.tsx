@@ -1,10 +1,12 @@
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import RelationWindow from './features/relation/RelationWindow';
 import './style.css';
 
 const container = document.getElementById('root');
 if (container) {
     const root = createRoot(container);
-    root.render(<App />);
+    // Both views share this bundle; the provider tells us which one to render
+    root.render(container.dataset.view === 'relation' ? <RelationWindow /> : <App />);
 }
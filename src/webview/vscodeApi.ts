@@ -0,0 +1,2 @@
+// acquireVsCodeApi() may only be called once per webview, so all components share this instance
+export const vscode = acquireVsCodeApi();